@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAuth } from '@/lib/admin-auth'
+import { pageCacheService } from '@/lib/page-cache'
+
+function rejectUnlessAdmin(request: NextRequest) {
+  const auth = checkAdminAuth(request.headers)
+
+  if (auth === 'not-configured') {
+    return NextResponse.json(
+      { error: 'Admin API is disabled (ADMIN_API_TOKEN is not set)' },
+      { status: 503 }
+    )
+  }
+
+  if (auth === 'unauthorized') {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
+
+export async function GET(request: NextRequest) {
+  const rejected = rejectUnlessAdmin(request)
+  if (rejected) return rejected
+
+  try {
+    const result = await pageCacheService.getStats()
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to get cache statistics')
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result.data,
+        config: pageCacheService.config
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching page cache stats:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch page cache statistics',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const rejected = rejectUnlessAdmin(request)
+  if (rejected) return rejected
+
+  try {
+    const url = request.nextUrl.searchParams.get('url')
+    const all = request.nextUrl.searchParams.get('all') === 'true'
+
+    // Purging everything must be asked for explicitly
+    if (!url && !all) {
+      return NextResponse.json(
+        { error: 'Pass ?url=<page url> to purge one entry or ?all=true to purge the whole cache' },
+        { status: 400 }
+      )
+    }
+
+    const result = await pageCacheService.purge(url || undefined)
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to purge cache')
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { purged: result.data }
+    })
+  } catch (error) {
+    console.error('Error purging page cache:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to purge page cache',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAuth } from '@/lib/admin-auth'
+import { robotsService } from '@/lib/robots'
+
+function rejectUnlessAdmin(request: NextRequest) {
+  const auth = checkAdminAuth(request.headers)
+
+  if (auth === 'not-configured') {
+    return NextResponse.json(
+      { error: 'Admin API is disabled (ADMIN_API_TOKEN is not set)' },
+      { status: 503 }
+    )
+  }
+
+  if (auth === 'unauthorized') {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
+
+// Accept "example.com" or a full URL
+function parseHost(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null
+
+  try {
+    const host = new URL(value.includes('://') ? value : `https://${value.trim()}`).hostname
+    return host.includes('.') ? host : null
+  } catch {
+    return null
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const rejected = rejectUnlessAdmin(request)
+  if (rejected) return rejected
+
+  try {
+    const result = await robotsService.getOverrides()
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to list robots.txt overrides')
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error listing robots.txt overrides:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list robots.txt overrides',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rejected = rejectUnlessAdmin(request)
+  if (rejected) return rejected
+
+  try {
+    const { host, reason } = await request.json()
+    const hostname = parseHost(host)
+
+    if (!hostname) {
+      return NextResponse.json(
+        { error: 'A valid host is required, e.g. {"host": "example.com"}' },
+        { status: 400 }
+      )
+    }
+
+    const result = await robotsService.addOverride(hostname, typeof reason === 'string' ? reason : undefined)
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save robots.txt override')
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error saving robots.txt override:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save robots.txt override',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const rejected = rejectUnlessAdmin(request)
+  if (rejected) return rejected
+
+  try {
+    const hostname = parseHost(request.nextUrl.searchParams.get('host'))
+
+    if (!hostname) {
+      return NextResponse.json(
+        { error: 'Pass ?host=<host> to remove an override' },
+        { status: 400 }
+      )
+    }
+
+    const result = await robotsService.removeOverride(hostname)
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to remove robots.txt override')
+    }
+
+    if (!result.data) {
+      return NextResponse.json(
+        { error: 'No override exists for this host' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { host: hostname, removed: true }
+    })
+  } catch (error) {
+    console.error('Error removing robots.txt override:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to remove robots.txt override',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
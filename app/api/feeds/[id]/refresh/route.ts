@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { feedService } from '@/lib/feeds'
+
+// Processing a batch of entries can take several minutes
+export const maxDuration = 300
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const result = await feedService.refreshFeed(id)
+
+    if (!result.success) {
+      const status = result.error === 'Feed not found' || result.error === 'Invalid ObjectId format' ? 404 : 502
+      return NextResponse.json(
+        { error: result.error || 'Failed to refresh feed' },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error refreshing feed:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to refresh feed',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
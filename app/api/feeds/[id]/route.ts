@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { feedService } from '@/lib/feeds'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const result = await feedService.getFeedStatus(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Feed not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error fetching feed status:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch feed status',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const result = await feedService.removeFeed(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Feed not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true
+    })
+  } catch (error) {
+    console.error('Error removing feed:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to remove feed',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { feedService } from '@/lib/feeds'
+
+export async function GET() {
+  try {
+    const result = await feedService.listFeeds()
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to list feeds')
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error listing feeds:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list feeds',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { url } = await request.json()
+
+    if (!url) {
+      return NextResponse.json(
+        { error: 'Feed URL is required' },
+        { status: 400 }
+      )
+    }
+
+    // Validate URL format
+    try {
+      new URL(url)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid URL format' },
+        { status: 400 }
+      )
+    }
+
+    const result = await feedService.addFeed(url)
+
+    if (!result.success) {
+      const status = result.data ? 409 : 422
+      return NextResponse.json(
+        {
+          error: result.error || 'Failed to add feed',
+          data: result.data
+        },
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error adding feed:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to add feed',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,16 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { scrapeBlogContent } from '@/lib/scraper'
-import { generateSummary } from '@/lib/summarizer'
-import { translateToUrdu } from '@/lib/translator'
 import { databaseService } from '@/lib/database'
+import { processArticleUrl, processPastedContent, toResponseData } from '@/lib/pipeline'
+import { FetchPolicyError } from '@/lib/safe-http'
+import { ScrapeError } from '@/lib/scrape-errors'
+import { parseSummaryPreferences, InvalidSummaryOptionsError } from '@/lib/summary-options'
+
+const PASTED_FORMATS = ['auto', 'text', 'markdown', 'html']
+const MAX_PASTED_LENGTH = 500000
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json()
+    const { url, text, format, title, source, force, options } = await request.json()
+
+    // Summary length, style and format, e.g. { length: 'short', style: 'tldr', format: 'bullets' }
+    const preferences = parseSummaryPreferences(options)
+
+    // Pasted content: plain text, Markdown or HTML instead of a URL
+    if (typeof text === 'string' && !url) {
+      if (!text.trim()) {
+        return NextResponse.json(
+          { error: 'Pasted content is empty' },
+          { status: 400 }
+        )
+      }
+
+      if (text.length > MAX_PASTED_LENGTH) {
+        return NextResponse.json(
+          { error: `Pasted content is too long (limit is ${MAX_PASTED_LENGTH} characters)` },
+          { status: 413 }
+        )
+      }
+
+      if (format !== undefined && !PASTED_FORMATS.includes(format)) {
+        return NextResponse.json(
+          { error: `Invalid format (expected one of: ${PASTED_FORMATS.join(', ')})` },
+          { status: 400 }
+        )
+      }
+
+      const outcome = await processPastedContent(
+        {
+          content: text,
+          format,
+          title: typeof title === 'string' ? title : undefined,
+          source: typeof source === 'string' ? source : undefined
+        },
+        { force: force === true, preferences }
+      )
+
+      return NextResponse.json({ success: true, data: toResponseData(outcome) })
+    }
 
     if (!url) {
       return NextResponse.json(
-        { error: 'URL is required' },
+        { error: 'URL or pasted text is required' },
         { status: 400 }
       )
     }
@@ -25,46 +68,45 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Step 1: Scrape the blog content
-    console.log('Scraping content from:', url)
-    const scrapedContent = await scrapeBlogContent(url)
+    // Scrape, summarize, translate and save (unless already summarized)
+    const outcome = await processArticleUrl(url, { force: force === true, preferences })
 
-    // Generate summary using Cohere AI
-    console.log('Generating summary with Cohere AI...')
-    const summaryResult = await generateSummary(scrapedContent.content)
+    return NextResponse.json({ success: true, data: toResponseData(outcome) })
 
-    // Translate to Urdu using Cohere AI
-    console.log('Translating to Urdu with Cohere AI...')
-    const summaryUrdu = await translateToUrdu(summaryResult.summary)
+  } catch (error) {
+    console.error('Error in summarize API:', error)
 
-    // Step 4: Save to databases
-    console.log('Saving to databases...')
-    const saveResult = await databaseService.saveToBothDatabases(
-      scrapedContent,
-      summaryResult,
-      summaryUrdu
-    )
+    if (error instanceof InvalidSummaryOptionsError) {
+      return NextResponse.json(
+        { error: 'Invalid summary options', details: error.message },
+        { status: 400 }
+      )
+    }
 
-    // Return the results
-    return NextResponse.json({
-      success: true,
-      data: {
-        title: scrapedContent.title,
-        url: scrapedContent.url,
-        summary: summaryResult.summary,
-        summaryUrdu,
-        keyPoints: summaryResult.keyPoints,
-        wordCount: summaryResult.wordCount,
-        originalLength: summaryResult.originalLength,
-        mongoId: saveResult.data?.mongoId,
-        supabaseId: saveResult.data?.supabaseId,
-        scrapedAt: scrapedContent.scrapedAt,
-        aiPowered: true
-      }
-    })
+    // URLs refused by the fetch policy are the caller's problem, not ours
+    if (error instanceof FetchPolicyError) {
+      return NextResponse.json(
+        {
+          error: 'URL cannot be fetched',
+          code: error.code,
+          details: error.message
+        },
+        { status: error.status }
+      )
+    }
 
-  } catch (error) {
-    console.error('Error in summarize API:', error)
+    // Paywalls, consent walls, bot challenges, non-articles, timeouts...
+    if (error instanceof ScrapeError) {
+      return NextResponse.json(
+        {
+          error: 'Article cannot be summarized',
+          code: error.code,
+          hint: error.hint,
+          details: error.message
+        },
+        { status: error.status }
+      )
+    }
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
     
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processUploadedFile, toResponseData } from '@/lib/pipeline'
+import { UnsupportedFileError, FileExtractionError } from '@/lib/uploaded-content'
+import { ScrapeError } from '@/lib/scrape-errors'
+import { parseSummaryPreferences, InvalidSummaryOptionsError } from '@/lib/summary-options'
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentLength = Number(request.headers.get('content-length'))
+    if (contentLength > MAX_UPLOAD_BYTES + 64 * 1024) {
+      return NextResponse.json(
+        { error: `File is too large (limit is ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB)` },
+        { status: 413 }
+      )
+    }
+
+    let form: FormData
+    try {
+      form = await request.formData()
+    } catch {
+      return NextResponse.json(
+        { error: 'Expected a multipart/form-data body with a "file" field' },
+        { status: 400 }
+      )
+    }
+
+    const file = form.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'File is required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `File is too large (limit is ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB)` },
+        { status: 413 }
+      )
+    }
+
+    const title = form.get('title')
+    const preferences = parseSummaryPreferences({
+      length: form.get('length') ?? undefined,
+      style: form.get('style') ?? undefined,
+      format: form.get('format') ?? undefined
+    })
+
+    // Extract, summarize, translate and save (unless already summarized)
+    const outcome = await processUploadedFile(
+      {
+        name: file.name || 'upload',
+        data: Buffer.from(await file.arrayBuffer()),
+        mimeType: file.type || undefined,
+        title: typeof title === 'string' ? title : undefined
+      },
+      { force: form.get('force') === 'true', preferences }
+    )
+
+    return NextResponse.json({ success: true, data: toResponseData(outcome) })
+
+  } catch (error) {
+    console.error('Error in upload API:', error)
+
+    if (error instanceof InvalidSummaryOptionsError) {
+      return NextResponse.json(
+        { error: 'Invalid summary options', details: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof UnsupportedFileError) {
+      return NextResponse.json(
+        { error: 'Unsupported file type', details: error.message },
+        { status: 415 }
+      )
+    }
+
+    // Corrupt, encrypted or image-only files
+    if (error instanceof FileExtractionError) {
+      return NextResponse.json(
+        { error: 'File cannot be read', details: error.message },
+        { status: 422 }
+      )
+    }
+
+    // Too little text, or text that is not prose
+    if (error instanceof ScrapeError) {
+      return NextResponse.json(
+        {
+          error: 'File cannot be summarized',
+          code: error.code,
+          details: error.message
+        },
+        { status: error.status }
+      )
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process uploaded file',
+        details: errorMessage
+      },
+      { status: 500 }
+    )
+  }
+}
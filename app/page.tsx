@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LoadingSpinner, LoadingDots, ProgressBar } from '@/components/ui/loading';
@@ -15,20 +16,71 @@ import {
   AlertCircleIcon, 
   ArrowRightIcon 
 } from '@/components/ui/icons';
-import { scrapeBlogContent } from './utils/scraper';
-import { generateSummary, translateToUrdu } from './utils/summarizer';
 import { validateConfig } from './config';
 
 type ProcessingStep = 'idle' | 'scraping' | 'summarizing' | 'translating' | 'saving' | 'completed';
+type InputMode = 'url' | 'paste' | 'upload';
+type PasteFormat = 'auto' | 'text' | 'markdown' | 'html';
+type LeadImage = { url: string; alt?: string; caption?: string };
+type SummaryLength = 'one-liner' | 'short' | 'medium' | 'detailed' | 'custom';
+type SummaryStyle = 'neutral' | 'executive' | 'tldr' | 'tweet' | 'study-notes';
+type SummaryFormat = 'paragraph' | 'bullets' | 'qa';
+type SourceReference = { paragraph: number; start: number; end: number; text: string };
+type GroundedSentence = {
+  text: string;
+  line: number;
+  sources: SourceReference[];
+  supported: boolean;
+  issues: { type: string; value: string; message: string }[];
+};
+type SummaryGrounding = { summary: GroundedSentence[]; method: 'lexical' | 'numbers-only'; unsupportedCount: number };
+type SourceParagraph = { index: number; start: number; text: string };
+type SummaryState = {
+  english: string;
+  urdu: string;
+  leadImage?: LeadImage;
+  grounding?: SummaryGrounding;
+  sourceParagraphs?: SourceParagraph[];
+};
+
+// Show a cited paragraph with the supporting sentence marked
+function SourcePassage({ paragraph, source }: { paragraph?: SourceParagraph; source: SourceReference }) {
+  if (!paragraph) {
+    return <p className="leading-relaxed"><mark className="bg-yellow-200 dark:bg-yellow-700/60 rounded px-0.5">{source.text}</mark></p>;
+  }
+
+  const start = source.start - paragraph.start;
+  const end = source.end - paragraph.start;
+
+  return (
+    <p className="leading-relaxed whitespace-pre-line">
+      {paragraph.text.slice(0, start)}
+      <mark className="bg-yellow-200 dark:bg-yellow-700/60 rounded px-0.5">{paragraph.text.slice(start, end)}</mark>
+      {paragraph.text.slice(end)}
+    </p>
+  );
+}
 
 
 
 export default function BlogSummarizerPage() {
+  const [mode, setMode] = useState<InputMode>('url');
   const [url, setUrl] = useState('');
+  const [pastedText, setPastedText] = useState('');
+  const [pasteFormat, setPasteFormat] = useState<PasteFormat>('auto');
+  const [pasteTitle, setPasteTitle] = useState('');
+  const [pasteSource, setPasteSource] = useState('');
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadTitle, setUploadTitle] = useState('');
+  const [summaryLength, setSummaryLength] = useState<SummaryLength>('medium');
+  const [customWords, setCustomWords] = useState('150');
+  const [summaryStyle, setSummaryStyle] = useState<SummaryStyle>('neutral');
+  const [summaryFormat, setSummaryFormat] = useState<SummaryFormat>('paragraph');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const [summary, setSummary] = useState({ english: '', urdu: '' });
+  const [summary, setSummary] = useState<SummaryState>({ english: '', urdu: '' });
+  const [selectedSentence, setSelectedSentence] = useState<number | null>(null);
   const [step, setStep] = useState<ProcessingStep>('idle');
   const [progress, setProgress] = useState(0);
 
@@ -61,7 +113,124 @@ export default function BlogSummarizerPage() {
     return messages[currentStep] || '';
   };
 
+  // Sent with every mode; each combination is stored as its own summary
+  const getSummaryOptions = () => ({
+    length: summaryLength === 'custom' ? customWords.trim() : summaryLength,
+    style: summaryStyle,
+    format: summaryFormat,
+  });
+
+  const handlePasteSummarize = async () => {
+    if (!pastedText.trim()) {
+      setError('Please paste the text, Markdown or HTML you want to summarize');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      setSummary({ english: '', urdu: '' });
+
+      // Extraction, summary, translation and saving all happen on the server
+      setStep('summarizing');
+      setProgress(getStepProgress('summarizing'));
+      const response = await fetch('/api/summarize', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text: pastedText,
+          format: pasteFormat,
+          title: pasteTitle.trim() || undefined,
+          source: pasteSource.trim() || undefined,
+          options: getSummaryOptions(),
+        }),
+      });
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.hint || result?.details || result?.error || 'Failed to summarize the pasted content. Please try again.');
+      }
+
+      setStep('completed');
+      setProgress(getStepProgress('completed'));
+      setSummary({
+        english: result.data.summary,
+        urdu: result.data.summaryUrdu,
+        leadImage: result.data.leadImage,
+        grounding: result.data.grounding,
+        sourceParagraphs: result.data.sourceParagraphs
+      });
+      setSelectedSentence(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      setStep('idle');
+      setProgress(0);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUploadSummarize = async () => {
+    if (!uploadFile) {
+      setError('Please choose a PDF, DOCX, EPUB, Markdown or text file');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      setSummary({ english: '', urdu: '' });
+
+      // Text extraction, summary, translation and saving all happen on the server
+      setStep('summarizing');
+      setProgress(getStepProgress('summarizing'));
+      const formData = new FormData();
+      formData.append('file', uploadFile);
+      if (uploadTitle.trim()) {
+        formData.append('title', uploadTitle.trim());
+      }
+      Object.entries(getSummaryOptions()).forEach(([key, value]) => formData.append(key, value));
+
+      const response = await fetch('/api/summarize/upload', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.details || result?.error || 'Failed to summarize the uploaded file. Please try again.');
+      }
+
+      setStep('completed');
+      setProgress(getStepProgress('completed'));
+      setSummary({
+        english: result.data.summary,
+        urdu: result.data.summaryUrdu,
+        leadImage: result.data.leadImage,
+        grounding: result.data.grounding,
+        sourceParagraphs: result.data.sourceParagraphs
+      });
+      setSelectedSentence(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      setStep('idle');
+      setProgress(0);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSummarize = async () => {
+    if (mode === 'paste') {
+      return handlePasteSummarize();
+    }
+
+    if (mode === 'upload') {
+      return handleUploadSummarize();
+    }
+
     if (!url) {
       setError('Please enter a valid blog URL');
       return;
@@ -83,53 +252,33 @@ export default function BlogSummarizerPage() {
       setSummary({ english: '', urdu: '' });
       setProgress(0);
       
-      // Scrape blog content
+      // Scraping, summary, translation and saving all happen on the server
       setStep('scraping');
       setProgress(getStepProgress('scraping'));
-      const content = await scrapeBlogContent(url).catch(() => {
-        throw new Error('Failed to extract content from the provided URL. Please verify the URL is accessible and contains readable content.');
-      });
-
-      // Generate summary
-      setStep('summarizing');
-      setProgress(getStepProgress('summarizing'));
-      const englishSummary = await generateSummary(content).catch(() => {
-        throw new Error('Failed to generate summary. The AI service may be temporarily unavailable.');
-      });
-
-      // Translate to Urdu
-      setStep('translating');
-      setProgress(getStepProgress('translating'));
-      const urduSummary = await translateToUrdu(englishSummary).catch(() => {
-        throw new Error('Failed to translate to Urdu. The translation service may be temporarily unavailable.');
-      });
-
-      // Save to databases through API
-      setStep('saving');
-      setProgress(getStepProgress('saving'));
       const response = await fetch('/api/summarize', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          url,
-          englishSummary,
-          urduSummary,
-          fullText: content
-        }),
+        body: JSON.stringify({ url, options: getSummaryOptions() }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to save data to the database. Please try again.');
+      // Paywalls, consent walls, bot challenges etc. come with a hint on what to do
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.hint || result?.details || result?.error || 'Failed to extract content from the provided URL. Please verify the URL is accessible and contains readable content.');
       }
 
       setStep('completed');
       setProgress(getStepProgress('completed'));
       setSummary({
-        english: englishSummary,
-        urdu: urduSummary
+        english: result.data.summary,
+        urdu: result.data.summaryUrdu,
+        leadImage: result.data.leadImage,
+        grounding: result.data.grounding,
+        sourceParagraphs: result.data.sourceParagraphs
       });
+      setSelectedSentence(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
       setStep('idle');
@@ -141,7 +290,13 @@ export default function BlogSummarizerPage() {
 
   const resetForm = () => {
     setUrl('');
+    setPastedText('');
+    setPasteTitle('');
+    setPasteSource('');
+    setUploadFile(null);
+    setUploadTitle('');
     setSummary({ english: '', urdu: '' });
+    setSelectedSentence(null);
     setError('');
     setStep('idle');
     setProgress(0);
@@ -200,41 +355,239 @@ export default function BlogSummarizerPage() {
           <CardContent className="p-8 space-y-6">
 
 
+            {/* Input Mode */}
+            <div className="grid grid-cols-3 gap-2 p-1 rounded-lg bg-slate-100 dark:bg-slate-800" role="tablist">
+              {(['url', 'paste', 'upload'] as const).map((option) => (
+                <button
+                  key={option}
+                  role="tab"
+                  aria-selected={mode === option}
+                  onClick={() => { setMode(option); setError(''); }}
+                  disabled={loading}
+                  className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 ${
+                    mode === option
+                      ? 'bg-white dark:bg-slate-900 shadow text-foreground'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {option === 'url' ? 'Blog URL' : option === 'paste' ? 'Paste Text' : 'Upload File'}
+                </button>
+              ))}
+            </div>
+
             {/* URL Input */}
-            <div className="space-y-3">
-              <label htmlFor="blog-url" className="block text-sm font-semibold text-foreground">
-                Blog URL <span className="text-destructive">*</span>
-              </label>
-              <div className="relative">
-                <Input
-                  id="blog-url"
-                  type="url"
-                  placeholder="https://example.com/interesting-blog-post"
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
+            {mode === 'url' && (
+              <div className="space-y-3">
+                <label htmlFor="blog-url" className="block text-sm font-semibold text-foreground">
+                  Blog URL <span className="text-destructive">*</span>
+                </label>
+                <div className="relative">
+                  <Input
+                    id="blog-url"
+                    type="url"
+                    placeholder="https://example.com/interesting-blog-post"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    disabled={loading}
+                    className="pl-4 pr-12 py-3 text-base border-2 focus:border-primary transition-all duration-200"
+                    aria-describedby={error ? "url-error" : "url-help"}
+                  />
+                  {url && !loading && (
+                    <button
+                      onClick={() => setUrl('')}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                      aria-label="Clear URL"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+                <p id="url-help" className="text-sm text-muted-foreground">
+                  Enter the full URL of the blog post you want to summarize
+                </p>
+              </div>
+            )}
+
+            {/* Pasted Content Input */}
+            {mode === 'paste' && (
+              <div className="space-y-4">
+                <div className="space-y-3">
+                  <label htmlFor="pasted-text" className="block text-sm font-semibold text-foreground">
+                    Content <span className="text-destructive">*</span>
+                  </label>
+                  <Textarea
+                    id="pasted-text"
+                    placeholder="Paste an article, newsletter or wiki page (plain text, Markdown or HTML)"
+                    value={pastedText}
+                    onChange={(e) => setPastedText(e.target.value)}
+                    disabled={loading}
+                    rows={10}
+                    className="px-4 py-3 text-base border-2 focus:border-primary transition-all duration-200 max-h-96"
+                    aria-describedby={error ? "url-error" : "paste-help"}
+                  />
+                  <p id="paste-help" className="text-sm text-muted-foreground">
+                    Use this for content behind logins, internal wikis or email newsletters
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <label htmlFor="paste-format" className="block text-sm font-semibold text-foreground">
+                      Format
+                    </label>
+                    <select
+                      id="paste-format"
+                      value={pasteFormat}
+                      onChange={(e) => setPasteFormat(e.target.value as PasteFormat)}
+                      disabled={loading}
+                      className="h-9 w-full rounded-md border-2 border-input bg-transparent px-3 text-sm focus:border-primary outline-none"
+                    >
+                      <option value="auto">Detect automatically</option>
+                      <option value="text">Plain text</option>
+                      <option value="markdown">Markdown</option>
+                      <option value="html">HTML</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="paste-title" className="block text-sm font-semibold text-foreground">
+                      Title
+                    </label>
+                    <Input
+                      id="paste-title"
+                      placeholder="Optional"
+                      value={pasteTitle}
+                      onChange={(e) => setPasteTitle(e.target.value)}
+                      disabled={loading}
+                      className="border-2 focus:border-primary"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="paste-source" className="block text-sm font-semibold text-foreground">
+                      Source
+                    </label>
+                    <Input
+                      id="paste-source"
+                      placeholder="e.g. Team wiki"
+                      value={pasteSource}
+                      onChange={(e) => setPasteSource(e.target.value)}
+                      disabled={loading}
+                      className="border-2 focus:border-primary"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* File Upload Input */}
+            {mode === 'upload' && (
+              <div className="space-y-4">
+                <div className="space-y-3">
+                  <label htmlFor="upload-file" className="block text-sm font-semibold text-foreground">
+                    File <span className="text-destructive">*</span>
+                  </label>
+                  <Input
+                    id="upload-file"
+                    type="file"
+                    accept=".pdf,.docx,.epub,.md,.markdown,.txt,application/pdf,application/epub+zip,text/plain,text/markdown"
+                    onChange={(e) => setUploadFile(e.target.files?.[0] ?? null)}
+                    disabled={loading}
+                    className="h-auto py-2 text-base border-2 focus:border-primary transition-all duration-200 cursor-pointer"
+                    aria-describedby={error ? "url-error" : "upload-help"}
+                  />
+                  <p id="upload-help" className="text-sm text-muted-foreground">
+                    PDF, Word (DOCX), EPUB, Markdown or plain text, up to 20 MB
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="upload-title" className="block text-sm font-semibold text-foreground">
+                    Title
+                  </label>
+                  <Input
+                    id="upload-title"
+                    placeholder="Optional (defaults to the document title)"
+                    value={uploadTitle}
+                    onChange={(e) => setUploadTitle(e.target.value)}
+                    disabled={loading}
+                    className="border-2 focus:border-primary"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Summary Options */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="summary-length" className="block text-sm font-semibold text-foreground">
+                  Length
+                </label>
+                <select
+                  id="summary-length"
+                  value={summaryLength}
+                  onChange={(e) => setSummaryLength(e.target.value as SummaryLength)}
                   disabled={loading}
-                  className="pl-4 pr-12 py-3 text-base border-2 focus:border-primary transition-all duration-200"
-                  aria-describedby={error ? "url-error" : "url-help"}
-                />
-                {url && !loading && (
-                  <button
-                    onClick={() => setUrl('')}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                    aria-label="Clear URL"
-                  >
-                    ✕
-                  </button>
+                  className="h-9 w-full rounded-md border-2 border-input bg-transparent px-3 text-sm focus:border-primary outline-none"
+                >
+                  <option value="one-liner">One-liner</option>
+                  <option value="short">Short</option>
+                  <option value="medium">Medium</option>
+                  <option value="detailed">Detailed</option>
+                  <option value="custom">Word count…</option>
+                </select>
+                {summaryLength === 'custom' && (
+                  <Input
+                    id="summary-words"
+                    type="number"
+                    min={10}
+                    max={1000}
+                    aria-label="Target word count"
+                    value={customWords}
+                    onChange={(e) => setCustomWords(e.target.value)}
+                    disabled={loading}
+                    className="border-2 focus:border-primary"
+                  />
                 )}
               </div>
-              <p id="url-help" className="text-sm text-muted-foreground">
-                Enter the full URL of the blog post you want to summarize
-              </p>
+              <div className="space-y-2">
+                <label htmlFor="summary-style" className="block text-sm font-semibold text-foreground">
+                  Style
+                </label>
+                <select
+                  id="summary-style"
+                  value={summaryStyle}
+                  onChange={(e) => setSummaryStyle(e.target.value as SummaryStyle)}
+                  disabled={loading}
+                  className="h-9 w-full rounded-md border-2 border-input bg-transparent px-3 text-sm focus:border-primary outline-none"
+                >
+                  <option value="neutral">Neutral</option>
+                  <option value="executive">Executive brief</option>
+                  <option value="tldr">TL;DR</option>
+                  <option value="tweet">Tweet-sized</option>
+                  <option value="study-notes">Study notes</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="summary-format" className="block text-sm font-semibold text-foreground">
+                  Summary format
+                </label>
+                <select
+                  id="summary-format"
+                  value={summaryFormat}
+                  onChange={(e) => setSummaryFormat(e.target.value as SummaryFormat)}
+                  disabled={loading}
+                  className="h-9 w-full rounded-md border-2 border-input bg-transparent px-3 text-sm focus:border-primary outline-none"
+                >
+                  <option value="paragraph">Paragraph</option>
+                  <option value="bullets">Bullet points</option>
+                  <option value="qa">Q&amp;A</option>
+                </select>
+              </div>
             </div>
 
             {/* Action Button */}
             <Button 
               onClick={handleSummarize}
-              disabled={loading || !url.trim()}
+              disabled={loading || (mode === 'url' ? !url.trim() : mode === 'paste' ? !pastedText.trim() : !uploadFile)}
               className="w-full py-4 text-lg font-semibold bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-slate-400 disabled:to-slate-500 transition-all duration-300 shadow-lg hover:shadow-xl disabled:shadow-none"
               aria-describedby="button-status"
             >
@@ -355,9 +708,82 @@ export default function BlogSummarizerPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="p-8">
+                {summary.leadImage && (
+                  <figure className="mb-6">
+                    {/* Article images come from any host, so next/image's domain allow-list does not fit */}
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={summary.leadImage.url}
+                      alt={summary.leadImage.alt || ''}
+                      loading="lazy"
+                      referrerPolicy="no-referrer"
+                      className="w-full max-h-80 object-cover rounded-lg"
+                    />
+                    {summary.leadImage.caption && (
+                      <figcaption className="mt-2 text-sm text-muted-foreground">{summary.leadImage.caption}</figcaption>
+                    )}
+                  </figure>
+                )}
                 <div className="prose prose-lg dark:prose-invert max-w-none">
-                  <p className="text-base leading-relaxed">{summary.english}</p>
+                  {summary.grounding && summary.grounding.summary.length > 0 ? (
+                    // Each sentence opens the passage of the article it came from
+                    <div className="text-base leading-relaxed space-y-1">
+                      {Array.from(new Set(summary.grounding.summary.map((sentence) => sentence.line))).map((line) => (
+                        <p key={line} className="my-0">
+                          {summary.grounding!.summary.map((sentence, index) => sentence.line === line && (
+                            <span key={index}>
+                              <button
+                                type="button"
+                                onClick={() => setSelectedSentence(selectedSentence === index ? null : index)}
+                                title={sentence.issues.map((issue) => issue.message).join('\n') || 'Show the source passage'}
+                                aria-pressed={selectedSentence === index}
+                                className={`inline text-left rounded px-0.5 transition-colors ${
+                                  selectedSentence === index
+                                    ? 'bg-blue-100 dark:bg-blue-900/50'
+                                    : 'hover:bg-blue-50 dark:hover:bg-blue-950/40'
+                                } ${sentence.supported ? '' : 'underline decoration-dotted decoration-amber-500 underline-offset-4'}`}
+                              >
+                                {sentence.text}
+                              </button>{' '}
+                            </span>
+                          ))}
+                        </p>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-base leading-relaxed whitespace-pre-line">{summary.english}</p>
+                  )}
                 </div>
+
+                {summary.grounding && summary.grounding.unsupportedCount > 0 && (
+                  <p className="mt-4 text-sm text-amber-700 dark:text-amber-300">
+                    {summary.grounding.unsupportedCount} statement(s) could not be matched to the article (underlined). Click a sentence to see its source.
+                  </p>
+                )}
+
+                {summary.grounding && selectedSentence !== null && summary.grounding.summary[selectedSentence] && (
+                  <div className="mt-6 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50/50 dark:bg-blue-950/30 p-4 space-y-3 text-sm">
+                    <p className="font-semibold text-foreground">Source passage</p>
+                    {summary.grounding.summary[selectedSentence].issues.map((issue, index) => (
+                      <p key={index} className="text-amber-700 dark:text-amber-300">{issue.message}</p>
+                    ))}
+                    {summary.grounding.summary[selectedSentence].sources.length > 0 ? (
+                      summary.grounding.summary[selectedSentence].sources.map((source) => (
+                        <SourcePassage
+                          key={source.start}
+                          source={source}
+                          paragraph={summary.sourceParagraphs?.find((paragraph) => paragraph.index === source.paragraph)}
+                        />
+                      ))
+                    ) : (
+                      <p className="text-muted-foreground">
+                        {summary.grounding.method === 'numbers-only'
+                          ? 'The article is in another language, so only numbers were checked against it.'
+                          : 'No passage in the article supports this sentence.'}
+                      </p>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
             
@@ -375,7 +801,7 @@ export default function BlogSummarizerPage() {
                 <div className="prose prose-lg dark:prose-invert max-w-none">
                   <p 
                     dir="rtl" 
-                    className="font-arabic text-base leading-relaxed text-right"
+                    className="font-arabic text-base leading-relaxed text-right whitespace-pre-line"
                     lang="ur"
                   >
                     {summary.urdu}
@@ -0,0 +1,24 @@
+import { timingSafeEqual } from 'crypto';
+
+export type AdminAuthResult = 'ok' | 'unauthorized' | 'not-configured';
+
+/**
+ * Check a request against the ADMIN_API_TOKEN bearer token. Admin routes
+ * stay disabled until the token is configured.
+ */
+export function checkAdminAuth(headers: Headers): AdminAuthResult {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return 'not-configured';
+  }
+
+  const match = (headers.get('authorization') || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return 'unauthorized';
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const wanted = Buffer.from(expected);
+
+  return provided.length === wanted.length && timingSafeEqual(provided, wanted) ? 'ok' : 'unauthorized';
+}
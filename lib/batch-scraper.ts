@@ -0,0 +1,180 @@
+import type { WebScraper, ScrapedContent, ScrapingConfig } from './scraper';
+
+export interface BatchScrapeOptions {
+  concurrency?: number; // URLs in flight at once (default 4)
+  perHostConcurrency?: number; // URLs in flight per host (default 2)
+  config?: Partial<ScrapingConfig>;
+  signal?: AbortSignal; // Cancels in-flight scrapes and skips the rest
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export type BatchScrapeResult =
+  | { status: 'fulfilled'; url: string; index: number; content: ScrapedContent }
+  | { status: 'rejected'; url: string; index: number; error: BatchScrapeError };
+
+// Reported each time a URL finishes
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  inFlight: number;
+  result: BatchScrapeResult;
+}
+
+/**
+ * A URL in a batch that failed or was cancelled; `cause` is the original
+ * error (FetchPolicyError, timeout, ...) untouched
+ */
+export class BatchScrapeError extends Error {
+  constructor(readonly url: string, readonly cause: unknown, readonly aborted: boolean = false) {
+    super(aborted ? `Scraping ${url} was cancelled` : `Failed to scrape ${url}: ${describeError(cause)}`);
+    this.name = 'BatchScrapeError';
+  }
+}
+
+interface BatchJob {
+  url: string;
+  index: number;
+  host: string;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_PER_HOST_CONCURRENCY = 2;
+
+/**
+ * Runs WebScraper over many URLs with a global and a per-host concurrency
+ * limit, handing back each result as soon as its URL completes
+ */
+export class BatchScraper {
+  constructor(private readonly scraper: Pick<WebScraper, 'scrapeContent'>) {}
+
+  /**
+   * Scrape URLs, yielding results in completion order. Leaving the loop
+   * early cancels whatever is still running.
+   */
+  async *run(urls: string[], options: BatchScrapeOptions = {}): AsyncGenerator<BatchScrapeResult> {
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    const perHostConcurrency = Math.max(1, options.perHostConcurrency ?? DEFAULT_PER_HOST_CONCURRENCY);
+
+    // Our own controller, so abandoning the iterator can cancel too
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    const pending: BatchJob[] = urls.map((url, index) => ({ url, index, host: hostOf(url) }));
+    const activeByHost = new Map<string, number>();
+    const finished: BatchScrapeResult[] = [];
+    const counts = { completed: 0, succeeded: 0, failed: 0, inFlight: 0 };
+    let wake: (() => void) | null = null;
+
+    const settle = (result: BatchScrapeResult) => {
+      counts.completed++;
+      counts[result.status === 'fulfilled' ? 'succeeded' : 'failed']++;
+      finished.push(result);
+
+      try {
+        options.onProgress?.({ total: urls.length, ...counts, result });
+      } catch (error) {
+        console.warn('Batch progress callback failed:', error);
+      }
+
+      wake?.();
+    };
+
+    const startEligible = () => {
+      for (let position = 0; position < pending.length && counts.inFlight < concurrency;) {
+        const job = pending[position];
+        if ((activeByHost.get(job.host) ?? 0) >= perHostConcurrency) {
+          position++; // Host is busy; a later URL on another host may start
+          continue;
+        }
+
+        pending.splice(position, 1);
+        counts.inFlight++;
+        activeByHost.set(job.host, (activeByHost.get(job.host) ?? 0) + 1);
+
+        this.scrapeOne(job, options.config, controller.signal).then(result => {
+          counts.inFlight--;
+          activeByHost.set(job.host, activeByHost.get(job.host)! - 1);
+          settle(result);
+          startEligible();
+        });
+      }
+    };
+
+    const cancelPending = () => {
+      for (const job of pending.splice(0)) {
+        settle({
+          status: 'rejected',
+          url: job.url,
+          index: job.index,
+          error: new BatchScrapeError(job.url, controller.signal.reason, true),
+        });
+      }
+    };
+    controller.signal.addEventListener('abort', cancelPending, { once: true });
+
+    try {
+      if (options.signal?.aborted) {
+        forwardAbort();
+      }
+      startEligible();
+
+      for (let yielded = 0; yielded < urls.length; yielded++) {
+        if (finished.length === 0) {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+          wake = null;
+        }
+        yield finished.shift()!;
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', forwardAbort);
+      if (counts.completed < urls.length) {
+        controller.abort(new Error('Batch scrape was abandoned'));
+      }
+    }
+  }
+
+  /**
+   * Scrape one URL, turning failures into results
+   */
+  private async scrapeOne(
+    job: BatchJob,
+    config: Partial<ScrapingConfig> | undefined,
+    signal: AbortSignal
+  ): Promise<BatchScrapeResult> {
+    try {
+      const content = await this.scraper.scrapeContent(job.url, { ...config, signal });
+      return { status: 'fulfilled', url: job.url, index: job.index, content };
+    } catch (error) {
+      return {
+        status: 'rejected',
+        url: job.url,
+        index: job.index,
+        error: new BatchScrapeError(job.url, error, signal.aborted),
+      };
+    }
+  }
+}
+
+/**
+ * Host used for per-host limits; unparseable URLs share one bucket and
+ * fail in scrapeContent
+ */
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Message of an unknown error value
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
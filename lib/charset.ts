@@ -0,0 +1,110 @@
+export type CharsetSource = 'bom' | 'header' | 'meta' | 'sniffed' | 'default';
+
+export interface DecodedBody {
+  text: string;
+  encoding: string; // WHATWG encoding name, e.g. "windows-1256"
+  source: CharsetSource;
+}
+
+// How far into the document to look for <meta charset> (the HTML spec uses 1024 bytes)
+const PRESCAN_BYTES = 4096;
+
+const BOMS: Array<[number[], string]> = [
+  [[0xef, 0xbb, 0xbf], 'utf-8'],
+  [[0xfe, 0xff], 'utf-16be'],
+  [[0xff, 0xfe], 'utf-16le'],
+];
+
+/**
+ * Work out a response's character encoding from (in order) its byte order
+ * mark, the Content-Type header and <meta charset>/http-equiv or the XML
+ * declaration; undeclared bodies that are not valid UTF-8 fall back to windows-1252
+ */
+export function detectCharset(body: Buffer, contentType: string = ''): { encoding: string; source: CharsetSource } {
+  for (const [bytes, encoding] of BOMS) {
+    if (bytes.every((byte, index) => body[index] === byte)) {
+      return { encoding, source: 'bom' };
+    }
+  }
+
+  const fromHeader = normalizeEncoding(contentType.match(/charset\s*=\s*["']?([^"';\s]+)/i)?.[1]);
+  if (fromHeader) {
+    return { encoding: fromHeader, source: 'header' };
+  }
+
+  const fromMeta = normalizeEncoding(prescanDeclaredCharset(body));
+  if (fromMeta) {
+    // A document cannot declare itself UTF-16 in ASCII-compatible bytes
+    return { encoding: fromMeta.startsWith('utf-16') ? 'utf-8' : fromMeta, source: 'meta' };
+  }
+
+  if (!isValidUtf8(body)) {
+    return { encoding: 'windows-1252', source: 'sniffed' };
+  }
+
+  return { encoding: 'utf-8', source: 'default' };
+}
+
+/**
+ * Decode a raw response body using the detected character encoding
+ */
+export function decodeBody(body: Buffer, contentType: string = ''): DecodedBody {
+  const { encoding, source } = detectCharset(body, contentType);
+
+  // TextDecoder strips a matching BOM itself
+  const text = new TextDecoder(encoding).decode(body);
+
+  return { text, encoding, source };
+}
+
+/**
+ * Map an encoding label ("latin1", "cp1256", "Shift_JIS") to its WHATWG
+ * name; undefined for labels the runtime cannot decode
+ */
+export function normalizeEncoding(label: string | undefined): string | undefined {
+  if (!label) return undefined;
+
+  try {
+    const encoding = new TextDecoder(label.trim().toLowerCase()).encoding;
+    // x-user-defined is never what a page author meant
+    return encoding === 'x-user-defined' ? 'windows-1252' : encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find a charset declared in the first bytes of an HTML or XML document
+ */
+function prescanDeclaredCharset(body: Buffer): string | undefined {
+  // latin1 maps bytes 1:1, so ASCII markup survives whatever the real encoding is
+  const head = body.subarray(0, PRESCAN_BYTES).toString('latin1');
+
+  const xmlDeclaration = head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/i);
+  if (xmlDeclaration) {
+    return xmlDeclaration[1];
+  }
+
+  const metaTags = head.replace(/<!--[\s\S]*?-->/g, '').match(/<meta\b[^>]*>/gi) || [];
+  for (const tag of metaTags) {
+    // <meta charset="windows-1256"> or <meta http-equiv="Content-Type" content="text/html; charset=windows-1256">
+    const charset = tag.match(/\bcharset\s*=\s*["']?\s*([^"'\s/>;]+)/i);
+    if (charset) {
+      return charset[1];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * True if the bytes decode as UTF-8 without errors
+ */
+function isValidUtf8(body: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(body);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  renderMarkdown,
+  type ArticleBlock,
+  type ArticleDocument,
+  type ArticleSection,
+} from './document-model';
+import { splitSentences } from './text-utils';
+
+export interface TextChunk {
+  index: number;
+  text: string; // Markdown
+  headings: string[]; // Section headings the chunk covers
+  tokens: number; // Estimated
+}
+
+/**
+ * Rough token count for budgeting prompts. English averages about four
+ * characters per token; other scripts split into far more tokens per
+ * character, so they are counted more heavily.
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+
+  return Math.ceil(ascii / 4 + other / 1.5);
+}
+
+/**
+ * Split a document into chunks of at most `maxTokens`, keeping whole
+ * sections together where they fit, then whole blocks, and only cutting
+ * inside a block (between sentences, list items or table rows) when a
+ * single block is too large
+ */
+export function chunkDocument(document: ArticleDocument, maxTokens: number): TextChunk[] {
+  const groups: ArticleSection[][] = [];
+  let current: ArticleSection[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+  };
+
+  for (const section of document.sections) {
+    const tokens = sectionTokens(section);
+
+    if (tokens > maxTokens) {
+      // Oversized sections become chunks of their own, split by blocks
+      flush();
+      groups.push(...splitSection(section, maxTokens).map(part => [part]));
+      continue;
+    }
+
+    if (currentTokens + tokens > maxTokens) {
+      flush();
+    }
+    current.push(section);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return groups.map((sections, index) => {
+    const text = renderMarkdown({ sections }, undefined, { images: false });
+    return {
+      index,
+      text,
+      headings: Array.from(new Set(sections.map(section => section.heading).filter((heading): heading is string => !!heading))),
+      tokens: estimateTokens(text),
+    };
+  });
+}
+
+/**
+ * Split plain text into chunks along paragraph (blank line) boundaries
+ */
+export function chunkText(text: string, maxTokens: number): TextChunk[] {
+  const blocks: ArticleBlock[] = text
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => ({ type: 'paragraph', text: paragraph }));
+
+  return chunkDocument({ sections: [{ level: 0, blocks }] }, maxTokens);
+}
+
+/**
+ * The start of the text, cut between words to fit the budget
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const words = text.match(/\S+\s*/g) || [];
+  const [kept = []] = packGroups(words, word => estimateTokens(word), maxTokens);
+  return kept.join('').trimEnd();
+}
+
+/**
+ * Estimated tokens of a section as rendered in prompts
+ */
+function sectionTokens(section: ArticleSection): number {
+  return estimateTokens(renderMarkdown({ sections: [section] }, undefined, { images: false }));
+}
+
+/**
+ * Split an oversized section into parts that each fit the budget, repeating
+ * the heading so every part keeps its context
+ */
+function splitSection(section: ArticleSection, maxTokens: number): ArticleSection[] {
+  const headingTokens = section.heading ? estimateTokens(section.heading) + 2 : 0;
+  const budget = Math.max(1, maxTokens - headingTokens);
+
+  const parts: ArticleSection[] = [];
+  let blocks: ArticleBlock[] = [];
+  let tokens = 0;
+
+  const flush = () => {
+    if (blocks.length > 0) {
+      parts.push({ heading: section.heading, level: section.level, blocks });
+      blocks = [];
+      tokens = 0;
+    }
+  };
+
+  for (const block of section.blocks.flatMap(block => splitBlock(block, budget))) {
+    const blockTokens = sectionTokens({ level: 0, blocks: [block] });
+    if (tokens + blockTokens > budget) {
+      flush();
+    }
+    blocks.push(block);
+    tokens += blockTokens;
+  }
+  flush();
+
+  return parts;
+}
+
+/**
+ * Cut a block that alone exceeds the budget into smaller blocks of the
+ * same kind
+ */
+function splitBlock(block: ArticleBlock, maxTokens: number): ArticleBlock[] {
+  if (sectionTokens({ level: 0, blocks: [block] }) <= maxTokens) {
+    return [block];
+  }
+
+  switch (block.type) {
+    case 'paragraph':
+    case 'quote':
+      return packPieces(splitSentences(block.text, { keepTerminators: true }), ' ', maxTokens).map(text => ({ ...block, text }));
+    case 'code':
+      return packPieces(block.text.split('\n'), '\n', maxTokens).map(text => ({ ...block, text }));
+    case 'list':
+      return packGroups(block.items, item => estimateTokens(item) + 2, maxTokens).map(items => ({ ...block, items }));
+    case 'table': {
+      // Every part repeats the header row so its figures stay labelled
+      const headerTokens = estimateTokens(block.headers.join(' | ')) * 2 + 4;
+      const rowBudget = Math.max(1, maxTokens - headerTokens);
+      return packGroups(block.rows, row => estimateTokens(row.join(' | ')) + 4, rowBudget).map(rows => ({ ...block, rows }));
+    }
+    case 'image':
+      return [block];
+  }
+}
+
+/**
+ * Join pieces of text into as few strings as fit the budget; a single
+ * piece that is still too long is cut between words
+ */
+function packPieces(pieces: string[], separator: string, maxTokens: number): string[] {
+  const fitted = pieces.flatMap(piece => (estimateTokens(piece) > maxTokens ? cutBetweenWords(piece, maxTokens) : [piece]));
+  return packGroups(fitted, piece => estimateTokens(piece + separator), maxTokens).map(group => group.join(separator));
+}
+
+/**
+ * Group items in order so each group's estimated size fits the budget
+ */
+function packGroups<T>(items: T[], size: (item: T) => number, maxTokens: number): T[][] {
+  const groups: T[][] = [];
+  let group: T[] = [];
+  let tokens = 0;
+
+  for (const item of items) {
+    const itemTokens = size(item);
+    if (group.length > 0 && tokens + itemTokens > maxTokens) {
+      groups.push(group);
+      group = [];
+      tokens = 0;
+    }
+    group.push(item);
+    tokens += itemTokens;
+  }
+
+  if (group.length > 0) {
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+/**
+ * Last resort for run-on text with no sentence breaks
+ */
+function cutBetweenWords(text: string, maxTokens: number): string[] {
+  return packGroups(text.split(/\s+/), word => estimateTokens(word) + 1, maxTokens).map(words => words.join(' '));
+}
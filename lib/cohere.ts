@@ -6,6 +6,17 @@ import {
   validateUrduTranslation,
   postProcessUrduTranslation 
 } from './urdu-utils';
+import { renderMarkdown, getTables, getImages, type ArticleDocument } from './document-model';
+import { languageName } from './language-detection';
+import { estimateTokens, chunkDocument, chunkText, truncateToTokens, type TextChunk } from './chunking';
+import type { Keyword } from './keywords';
+import type { SummaryGrounding } from './grounding';
+import {
+  DEFAULT_SUMMARY_PREFERENCES,
+  describePreferences,
+  outputTokenBudget,
+  type SummaryPreferences,
+} from './summary-options';
 
 // Initialize Cohere client with proper error handling
 let cohereClient: CohereClient | null = null;
@@ -22,11 +33,31 @@ try {
   console.error('Failed to initialize Cohere client:', error);
 }
 
+export interface SectionSummary {
+  heading: string;
+  summary: string;
+}
+
+// How a summary was produced: one prompt, per-chunk summaries merged by a
+// final prompt, or sentences picked from the article without AI
+export type SummaryStrategy = 'single-pass' | 'map-reduce' | 'extractive';
+
 export interface SummaryResult {
   summary: string;
   keyPoints: string[];
+  sections?: SectionSummary[];
   wordCount: number;
   originalLength: number;
+  strategy: SummaryStrategy;
+  chunkCount: number; // Parts summarized separately; 1 unless map-reduce
+  grounding?: SummaryGrounding; // Supporting passages and faithfulness issues per sentence and key point
+}
+
+export interface SummaryOptions {
+  sourceLanguage?: string; // ISO 639-1 code of the article, when known
+  outputLanguage?: string; // Language to write the summary in (default English)
+  preferences?: SummaryPreferences; // Length, style and format (default medium, neutral prose)
+  keywords?: Keyword[]; // Corpus-weighted key phrases, for the extractive fallback's key points
 }
 
 export interface TranslationResult {
@@ -45,6 +76,12 @@ export class CohereService {
   private readonly client = cohereClient;
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // 1 second
+  // Articles above this many input tokens are summarized in chunks. It
+  // leaves the model ample room and keeps long prompts from losing detail.
+  private readonly maxInputTokens = 12000;
+  private readonly chunkTokens = 6000;
+  private readonly mapConcurrency = 3;
+  private readonly maxReduceRounds = 3;
 
   /**
    * Check if Cohere API is available and properly configured
@@ -54,47 +91,54 @@ export class CohereService {
   }
 
   /**
-   * Generate AI-powered summary using Cohere
+   * Generate AI-powered summary using Cohere. Articles too long for one
+   * prompt are split along section and paragraph boundaries, each chunk is
+   * summarized, and the chunk summaries are merged in a final prompt.
    */
-  public async generateSummary(content: string): Promise<SummaryResult> {
+  public async generateSummary(
+    content: string,
+    document?: ArticleDocument,
+    options: SummaryOptions = {}
+  ): Promise<SummaryResult> {
     if (!this.isAvailable()) {
       throw new Error('Cohere API is not available. Please check your API key.');
     }
 
-    const prompt = this.createSummaryPrompt(content);
+    const preferences = options.preferences ?? DEFAULT_SUMMARY_PREFERENCES;
 
     try {
-      const response = await this.client!.chat({
-        model: 'command-r-plus',
-        message: prompt,
-        temperature: 0.3,
-        maxTokens: 1000,
-      });
+      if (estimateTokens(this.createPromptBody(content, document)) > this.maxInputTokens) {
+        return await this.generateMapReduceSummary(content, document, options);
+      }
 
-      const responseText = response.text || '';
-      const parsedResult = this.parseSummaryResponse(responseText);
+      const prompt = this.createSummaryPrompt(content, document, options);
+      const parsedResult = this.parseSummaryResponse(await this.chat(prompt, outputTokenBudget(preferences)));
 
       return {
         summary: parsedResult.summary,
         keyPoints: parsedResult.keyPoints,
         wordCount: this.countWords(content),
         originalLength: content.length,
+        strategy: 'single-pass',
+        chunkCount: 1,
       };
     } catch (error) {
+      // The caller falls back to the offline extractive summarizer
       console.error('Cohere summarization error:', error);
-      return this.generateFallbackSummary(content);
+      throw error;
     }
   }
 
   /**
-   * Translate text to Urdu using Cohere
+   * Translate text to Urdu using Cohere. `sourceLanguage` is the ISO 639-1
+   * code of the text; Urdu means Roman Urdu, which is transliterated.
    */
-  public async translateToUrdu(text: string): Promise<TranslationResult> {
+  public async translateToUrdu(text: string, sourceLanguage: string = 'en'): Promise<TranslationResult> {
     if (!this.isAvailable()) {
       throw new Error('Cohere API is not available. Please check your API key.');
     }
 
-    const prompt = this.createTranslationPrompt(text);
+    const prompt = this.createTranslationPrompt(text, sourceLanguage);
 
     try {
       const response = await this.client!.v2.chat({
@@ -106,7 +150,8 @@ export class CohereService {
           },
         ],
         temperature: 0.2,
-        maxTokens: 500,
+        // Urdu takes several tokens per word; detailed summaries need more room
+        maxTokens: Math.max(500, estimateTokens(text) * 3),
       });
 
       const responseText = response.message?.content?.[0]?.text || '';
@@ -140,12 +185,12 @@ export class CohereService {
   /**
    * Translate text with retry mechanism for better reliability
    */
-  public async translateWithRetry(text: string): Promise<TranslationResult> {
+  public async translateWithRetry(text: string, sourceLanguage: string = 'en'): Promise<TranslationResult> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
       try {
-        return await this.translateToUrdu(text);
+        return await this.translateToUrdu(text, sourceLanguage);
       } catch (error) {
         lastError = error as Error;
         console.warn(`Translation attempt ${attempt} failed:`, error);
@@ -195,6 +240,8 @@ export class CohereService {
         keyPoints: parsed.keyPoints,
         wordCount: this.countWords(content),
         originalLength: content.length,
+        strategy: 'single-pass',
+        chunkCount: 1,
       };
 
       let urduTranslation = parsed.summaryUrdu;
@@ -221,23 +268,176 @@ export class CohereService {
     }
   }
 
+  /**
+   * Map step: summarize each chunk, a few at a time. Reduce step: merge the
+   * chunk summaries; if they are still too long together, summarize them
+   * in chunks again, and cut each one short once the rounds run out.
+   */
+  private async generateMapReduceSummary(
+    content: string,
+    document: ArticleDocument | undefined,
+    options: SummaryOptions
+  ): Promise<SummaryResult> {
+    const chunks = document && document.sections.length > 0
+      ? chunkDocument(document, this.chunkTokens)
+      : chunkText(content, this.chunkTokens);
+    console.log(`Article is too long for one prompt, summarizing ${chunks.length} chunks...`);
+
+    let partials = await this.summarizeChunks(chunks, options);
+
+    for (let round = 1; round < this.maxReduceRounds && estimateTokens(partials.join('\n\n')) > this.maxInputTokens; round++) {
+      partials = await this.summarizeChunks(chunkText(partials.join('\n\n'), this.chunkTokens), options);
+    }
+
+    if (estimateTokens(partials.join('\n\n')) > this.maxInputTokens) {
+      // Out of rounds: keep the start of every part summary rather than send
+      // the model more than it can take in
+      console.warn(`Part summaries still exceed ${this.maxInputTokens} tokens after ${this.maxReduceRounds} rounds, truncating them`);
+      const share = Math.floor(this.maxInputTokens / partials.length) - 1;
+      partials = partials.map(partial => truncateToTokens(partial, share));
+    }
+
+    const prompt = this.createReducePrompt(partials, chunks.length, document, options);
+    const preferences = options.preferences ?? DEFAULT_SUMMARY_PREFERENCES;
+    const parsedResult = this.parseSummaryResponse(await this.chat(prompt, outputTokenBudget(preferences)));
+
+    return {
+      summary: parsedResult.summary,
+      keyPoints: parsedResult.keyPoints,
+      wordCount: this.countWords(content),
+      originalLength: content.length,
+      strategy: 'map-reduce',
+      chunkCount: chunks.length,
+    };
+  }
+
+  /**
+   * Summarize chunks with limited concurrency, returning one labelled
+   * partial summary per chunk in order
+   */
+  private async summarizeChunks(chunks: TextChunk[], options: SummaryOptions): Promise<string[]> {
+    const partials: string[] = new Array(chunks.length);
+
+    for (let start = 0; start < chunks.length; start += this.mapConcurrency) {
+      const batch = chunks.slice(start, start + this.mapConcurrency);
+      await Promise.all(batch.map(async chunk => {
+        const prompt = this.createChunkPrompt(chunk, chunks.length, options);
+        const parsed = this.parseSummaryResponse(await this.chat(prompt, 500));
+        const label = `Part ${chunk.index + 1} of ${chunks.length}${chunk.headings.length > 0 ? ` (${chunk.headings.join('; ')})` : ''}`;
+        partials[chunk.index] = `${label}:\n${parsed.summary}\n${parsed.keyPoints.map(point => `- ${point}`).join('\n')}`;
+      }));
+    }
+
+    return partials;
+  }
+
+  /**
+   * Send a single-message prompt and return the reply text
+   */
+  private async chat(prompt: string, maxTokens: number): Promise<string> {
+    const response = await this.client!.chat({
+      model: 'command-r-plus',
+      message: prompt,
+      temperature: 0.3,
+      maxTokens,
+    });
+
+    return response.text || '';
+  }
+
+  /**
+   * Article text as given to the model: Markdown keeps headings, lists,
+   * tables and code visible
+   */
+  private createPromptBody(content: string, document?: ArticleDocument): string {
+    return document && document.sections.length > 0 ? renderMarkdown(document, undefined, { images: false }) : content;
+  }
+
+  /**
+   * Create prompt summarizing one chunk of a long article
+   */
+  private createChunkPrompt(chunk: TextChunk, total: number, options: SummaryOptions): string {
+    return `The following is part ${chunk.index + 1} of ${total} of a long blog article. Summarize this part only; the parts will be combined afterwards.${this.createLanguageNote(options)}
+
+Requirements:
+1. Write 2-4 sentences covering the main points of this part
+2. List up to 5 key facts, keeping names, numbers and figures exactly as written
+3. Do not guess what other parts say
+
+Part ${chunk.index + 1}:
+${chunk.text}
+
+Please format your response exactly as follows:
+SUMMARY: [Your 2-4 sentence summary of this part]
+
+KEY POINTS:
+- [First key fact]
+- [Additional facts if relevant]`;
+  }
+
+  /**
+   * Create prompt merging chunk summaries into the final summary
+   */
+  private createReducePrompt(
+    partials: string[],
+    chunkCount: number,
+    document: ArticleDocument | undefined,
+    options: SummaryOptions
+  ): string {
+    const described = describePreferences(options.preferences ?? DEFAULT_SUMMARY_PREFERENCES);
+
+    return `The following are summaries of the ${chunkCount} consecutive parts of one long blog article. Combine them into a single structured summary of the whole article.${this.createLanguageNote(options)}
+
+Requirements:
+1. ${described.summary} of the whole article, not each part in turn
+2. Extract 3-5 key points for the whole article as bullet points
+3. Keep names, numbers and figures exactly as they appear in the part summaries
+4. Maintain clarity and readability
+5. ${described.style}
+6. ${described.format}
+
+Part summaries:
+${partials.join('\n\n')}${this.createCaptionContext(document)}
+
+Please format your response exactly as follows:
+SUMMARY: [Your summary here]
+
+KEY POINTS:
+- [First key point]
+- [Second key point]
+- [Third key point]
+- [Additional points if relevant]`;
+  }
+
   /**
    * Create optimized prompt for summarization
    */
-  private createSummaryPrompt(content: string): string {
-    return `Please analyze the following blog content and provide a structured summary.
+  private createSummaryPrompt(content: string, document?: ArticleDocument, options: SummaryOptions = {}): string {
+    const body = this.createPromptBody(content, document);
+    const described = describePreferences(options.preferences ?? DEFAULT_SUMMARY_PREFERENCES);
+    const structureNote = body === content
+      ? ''
+      : '\n7. The content is Markdown: use its headings to cover every section and prefer the author\'s own list items as key points';
+    const tableCount = body === content ? 0 : getTables(document!).length;
+    const tableNote = tableCount === 0
+      ? ''
+      : `\n8. The content has ${tableCount} Markdown table${tableCount === 1 ? '' : 's'} holding its data: quote figures from them exactly as written and say which row and column they come from`;
+
+    return `Please analyze the following blog content and provide a structured summary.${this.createLanguageNote(options)}
 
 Requirements:
-1. Create a concise summary (3-5 sentences) that captures the main message
+1. ${described.summary}
 2. Extract 3-5 key points as bullet points
 3. Focus on the most important information and insights
 4. Maintain clarity and readability
+5. ${described.style}
+6. ${described.format}${structureNote}${tableNote}
 
 Content to analyze:
-${content}
+${body}${this.createCaptionContext(document)}
 
 Please format your response exactly as follows:
-SUMMARY: [Your 3-5 sentence summary here]
+SUMMARY: [Your summary here]
 
 KEY POINTS:
 - [First key point]
@@ -246,11 +446,65 @@ KEY POINTS:
 - [Additional points if relevant]`;
   }
 
+  /**
+   * Figure captions, which often state a chart's or photo's point in words
+   */
+  private createCaptionContext(document?: ArticleDocument): string {
+    const captions = document
+      ? Array.from(new Set(getImages(document).map(image => image.caption).filter((caption): caption is string => !!caption)))
+      : [];
+
+    if (captions.length === 0) {
+      return '';
+    }
+
+    return `\n\nFigure captions (extra context from the article's images, not part of its text):\n${captions
+      .slice(0, 20)
+      .map(caption => `- ${caption}`)
+      .join('\n')}`;
+  }
+
+  /**
+   * Tell the model which language the article is in and which to answer in
+   */
+  private createLanguageNote(options: SummaryOptions): string {
+    const output = languageName(options.outputLanguage || 'en');
+    const source = options.sourceLanguage && options.sourceLanguage !== 'und'
+      ? languageName(options.sourceLanguage)
+      : null;
+
+    if ((!source || source === output) && output === 'English') {
+      return '';
+    }
+
+    const sourceNote = source ? `The content is written in ${source}. ` : '';
+    const scriptNote = output === 'Urdu' ? ' using Urdu script' : '';
+    const labelNote = output === 'English' ? '' : ' Keep the SUMMARY and KEY POINTS labels in English.';
+    return `\n${sourceNote}Write the summary and key points in ${output}${scriptNote}.${labelNote}`;
+  }
+
   /**
    * Create optimized prompt for translation
    */
-  private createTranslationPrompt(text: string): string {
-    return `Translate the following English text to natural, fluent Urdu.
+  private createTranslationPrompt(text: string, sourceLanguage: string): string {
+    // Roman Urdu only needs rewriting in Urdu script
+    if (sourceLanguage === 'ur') {
+      return `Rewrite the following Roman Urdu (Urdu written in Latin letters) in Urdu script.
+
+Requirements:
+- Provide only the Urdu script text (no explanations)
+- Keep the original wording, meaning and tone
+- Use correct Urdu spelling
+
+Roman Urdu text:
+${text}
+
+Urdu script:`;
+    }
+
+    const sourceName = sourceLanguage === 'und' ? '' : languageName(sourceLanguage);
+
+    return `Translate the following ${sourceName ? `${sourceName} ` : ''}text to natural, fluent Urdu.
 
 Requirements:
 - Provide only the Urdu translation (no explanations)
@@ -258,8 +512,9 @@ Requirements:
 - Maintain the original meaning and tone
 - Use correct Urdu script (Arabic script)
 - Make it sound natural to native Urdu speakers
+- Keep the line breaks, "- " bullets and "Q: "/"A: " labels of the original
 
-English text:
+${sourceName ? `${sourceName} text` : 'Text'}:
 ${text}
 
 Urdu translation:`;
@@ -349,24 +604,6 @@ URDU TRANSLATION: [اردو ترجمہ یہاں لکھیں]`;
     return cleaned || response;
   }
 
-  /**
-   * Generate fallback summary using extractive method
-   */
-  private generateFallbackSummary(content: string): SummaryResult {
-    const sentences = content
-      .split(/[.!?]+/)
-      .map(s => s.trim())
-      .filter(s => s.length > 10)
-      .slice(0, 5);
-
-    return {
-      summary: sentences.join('. ') + '.',
-      keyPoints: sentences.slice(0, 3),
-      wordCount: this.countWords(content),
-      originalLength: content.length,
-    };
-  }
-
   /**
    * Generate fallback translation using basic dictionary
    */
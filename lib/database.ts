@@ -1,19 +1,47 @@
 import { ObjectId } from 'mongodb';
 import clientPromise from './mongodb';
 import { supabase } from './supabase';
-import type { ScrapedContent } from './scraper';
-import type { SummaryResult } from './cohere';
+import type { ScrapedContent, SourceType, LeadImage } from './scraper';
+import type { SummaryResult, SectionSummary, SummaryStrategy } from './cohere';
+import { getTables, getImages, type ArticleDocument, type ArticleTable, type ArticleImage } from './document-model';
+import { normalizeUrl } from './url-utils';
+import { DEFAULT_SUMMARY_PREFERENCES, preferencesKey, type SummaryPreferences } from './summary-options';
+import type { CorpusFrequencies, Keyword } from './keywords';
+import { DocumentFrequencyService } from './document-frequencies';
+import type { SummaryGrounding } from './grounding';
 
 // MongoDB document interface
 export interface BlogDocument {
   _id?: ObjectId | string;
   title: string;
   content: string;
+  markdown?: string;
+  structure?: ArticleDocument;
+  tables?: ArticleTable[]; // Data tables from the article, also inside `structure`
+  leadImage?: LeadImage;
+  images?: ArticleImage[]; // Inline images with alt text and captions, also inside `structure`
   url: string;
+  canonicalUrl?: string;
+  urlAliases?: string[]; // Normalized URLs (short links, AMP, tracking variants) that led to this article
+  declaredCanonicalUrl?: string; // Canonical link of pasted HTML, unverified and never matched on
+  sourceType?: SourceType; // Missing on records created before pasted input existed (all "url")
+  sourceLabel?: string;
+  fileName?: string; // Uploaded files only
+  fileHash?: string; // SHA-256 of the uploaded file
+  pageCount?: number;
+  chapterCount?: number;
+  sourceLanguage?: string; // ISO 639-1 code identified from the text, 'und' when undetermined
+  tags?: string[]; // Key phrases distinctive for this article within the corpus
   scrapedAt: Date;
   summary: string;
   summaryUrdu: string;
   keyPoints: string[];
+  sections?: SectionSummary[];
+  grounding?: SummaryGrounding; // Missing on records created before grounding
+  summaryStrategy?: SummaryStrategy; // Missing on records created before chunked summarizing
+  chunkCount?: number;
+  summaryPreferences?: SummaryPreferences; // Missing on records created before summary options (the defaults)
+  summaryVariant?: string; // preferencesKey() of summaryPreferences, for lookups
   wordCount: number;
   originalLength: number;
   createdAt: Date;
@@ -51,6 +79,9 @@ export class DatabaseService {
   private readonly mongoDbName = 'blog_summarizer';
   private readonly mongoCollection = 'blog_posts';
   private readonly supabaseTable = 'blog_summaries';
+  private readonly documentFrequencies = new DocumentFrequencyService(
+    async () => (await clientPromise).db(this.mongoDbName)
+  );
 
   /**
    * Save complete blog content to MongoDB
@@ -58,7 +89,9 @@ export class DatabaseService {
   async saveBlogDocument(
     scrapedContent: ScrapedContent,
     summaryResult: SummaryResult,
-    summaryUrdu: string
+    summaryUrdu: string,
+    preferences: SummaryPreferences = DEFAULT_SUMMARY_PREFERENCES,
+    keywords: Keyword[] = []
   ): Promise<DatabaseResult<string>> {
     try {
       const client = await clientPromise;
@@ -68,17 +101,40 @@ export class DatabaseService {
       const document: BlogDocument = {
         title: scrapedContent.title,
         content: scrapedContent.content,
+        markdown: scrapedContent.markdown,
+        structure: scrapedContent.document,
+        tables: scrapedContent.document ? getTables(scrapedContent.document) : undefined,
+        leadImage: scrapedContent.leadImage,
+        images: scrapedContent.document ? getImages(scrapedContent.document) : undefined,
         url: scrapedContent.url,
+        canonicalUrl: scrapedContent.canonicalUrl,
+        urlAliases: this.collectUrlAliases(scrapedContent),
+        declaredCanonicalUrl: scrapedContent.metadata?.declaredCanonicalUrl,
+        sourceType: scrapedContent.sourceType,
+        sourceLabel: scrapedContent.sourceLabel,
+        fileName: scrapedContent.file?.name,
+        fileHash: scrapedContent.file?.hash,
+        pageCount: scrapedContent.file?.pageCount,
+        chapterCount: scrapedContent.file?.chapterCount,
+        sourceLanguage: scrapedContent.metadata?.detectedLanguage.language,
+        tags: keywords.map(keyword => keyword.phrase),
         scrapedAt: scrapedContent.scrapedAt,
         summary: summaryResult.summary,
         summaryUrdu,
         keyPoints: summaryResult.keyPoints,
+        sections: summaryResult.sections,
+        grounding: summaryResult.grounding,
+        summaryStrategy: summaryResult.strategy,
+        chunkCount: summaryResult.chunkCount,
+        summaryPreferences: preferences,
+        summaryVariant: preferencesKey(preferences),
         wordCount: summaryResult.wordCount,
         originalLength: summaryResult.originalLength,
         createdAt: new Date(),
       };
 
       const result = await collection.insertOne(document);
+      await this.documentFrequencies.articleSaved(document);
 
       return {
         success: true,
@@ -94,7 +150,8 @@ export class DatabaseService {
   }
 
   /**
-   * Save summary record to Supabase
+   * Save summary record to Supabase. The row keeps its original columns;
+   * source, structure and tagging details are stored in MongoDB only.
    */
   async saveSummaryRecord(
     scrapedContent: ScrapedContent,
@@ -141,13 +198,15 @@ export class DatabaseService {
   async saveToBothDatabases(
     scrapedContent: ScrapedContent,
     summaryResult: SummaryResult,
-    summaryUrdu: string
+    summaryUrdu: string,
+    preferences: SummaryPreferences = DEFAULT_SUMMARY_PREFERENCES,
+    keywords: Keyword[] = []
   ): Promise<DatabaseResult<{ mongoId?: string; supabaseId?: number }>> {
     const results: { mongoId?: string; supabaseId?: number } = {};
     const errors: string[] = [];
 
     // Save to MongoDB
-    const mongoResult = await this.saveBlogDocument(scrapedContent, summaryResult, summaryUrdu);
+    const mongoResult = await this.saveBlogDocument(scrapedContent, summaryResult, summaryUrdu, preferences, keywords);
     if (mongoResult.success && mongoResult.data) {
       results.mongoId = mongoResult.data;
     } else if (mongoResult.error) {
@@ -209,6 +268,93 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Find an already-summarized article by any of its normalized URLs
+   * (canonical URL or a previously seen alias); data is null when none exists.
+   * With `preferences`, only the summary variant made with them matches.
+   */
+  async findBlogDocumentByUrl(
+    urls: string[],
+    preferences?: SummaryPreferences
+  ): Promise<DatabaseResult<BlogDocument | null>> {
+    try {
+      const client = await clientPromise;
+      const db = client.db(this.mongoDbName);
+      const collection = db.collection<BlogDocument>(this.mongoCollection);
+
+      await this.ensureUrlIndexes();
+
+      const candidates = Array.from(new Set(urls.map(url => normalizeUrl(url))));
+      const byUrl = {
+        $or: [
+          { canonicalUrl: { $in: candidates } },
+          { urlAliases: { $in: candidates } },
+        ],
+      };
+      const document = await collection.findOne(
+        preferences ? { $and: [byUrl, this.variantFilter(preferences)] } : byUrl,
+        { sort: { createdAt: -1 } }
+      );
+
+      return {
+        success: true,
+        data: document,
+      };
+    } catch (error) {
+      console.error('MongoDB URL lookup error:', error);
+      return {
+        success: false,
+        error: `Failed to look up blog document by URL: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Match the stored variant made with the given preferences; records from
+   * before summary options were made with the defaults
+   */
+  private variantFilter(preferences: SummaryPreferences) {
+    const variant = preferencesKey(preferences);
+
+    return variant === preferencesKey(DEFAULT_SUMMARY_PREFERENCES)
+      ? { $or: [{ summaryVariant: variant }, { summaryVariant: { $exists: false } }] }
+      : { summaryVariant: variant };
+  }
+
+  /**
+   * Record additional URLs under which an existing article was requested
+   */
+  async addUrlAliases(id: string, urls: string[]): Promise<DatabaseResult<boolean>> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        return {
+          success: false,
+          error: 'Invalid ObjectId format',
+        };
+      }
+
+      const client = await clientPromise;
+      const db = client.db(this.mongoDbName);
+      const collection = db.collection<BlogDocument>(this.mongoCollection);
+
+      const result = await collection.updateOne(
+        { _id: new ObjectId(id) },
+        { $addToSet: { urlAliases: { $each: urls.map(url => normalizeUrl(url)) } } }
+      );
+
+      return {
+        success: true,
+        data: result.modifiedCount > 0,
+      };
+    } catch (error) {
+      console.error('MongoDB alias update error:', error);
+      return {
+        success: false,
+        error: `Failed to update URL aliases: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
   /**
    * Retrieve all blog documents with pagination
    */
@@ -348,12 +494,16 @@ export class DatabaseService {
       const db = client.db(this.mongoDbName);
       const collection = db.collection<BlogDocument>(this.mongoCollection);
 
-      const result = await collection.deleteOne({ _id: new ObjectId(id) });
+      const deleted = await collection.findOneAndDelete({ _id: new ObjectId(id) });
+
+      if (deleted) {
+        await this.documentFrequencies.articleDeleted(deleted);
+      }
 
       return {
-        success: result.deletedCount > 0,
-        data: result.deletedCount > 0,
-        error: result.deletedCount === 0 ? 'Document not found' : undefined,
+        success: Boolean(deleted),
+        data: Boolean(deleted),
+        error: deleted ? undefined : 'Document not found',
       };
     } catch (error) {
       console.error('MongoDB delete error:', error);
@@ -364,6 +514,48 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Look up how many stored articles contain each term, building the table
+   * from the stored articles the first time it is needed
+   */
+  async getDocumentFrequencies(terms: string[]): Promise<DatabaseResult<CorpusFrequencies>> {
+    try {
+      const frequencies = await this.documentFrequencies.lookup(terms);
+
+      return {
+        success: true,
+        data: frequencies,
+      };
+    } catch (error) {
+      console.error('MongoDB term frequency lookup error:', error);
+      return {
+        success: false,
+        error: `Failed to look up document frequencies: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Recount document frequencies from every stored article, one count per
+   * article however many summary variants it has
+   */
+  async rebuildDocumentFrequencies(): Promise<DatabaseResult<number>> {
+    try {
+      const articleCount = await this.documentFrequencies.rebuild();
+
+      return {
+        success: true,
+        data: articleCount,
+      };
+    } catch (error) {
+      console.error('MongoDB term frequency rebuild error:', error);
+      return {
+        success: false,
+        error: `Failed to rebuild document frequencies: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
   /**
    * Test database connections
    */
@@ -449,6 +641,39 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Ensure the canonical URL and alias lookup indexes exist for MongoDB
+   */
+  private async ensureUrlIndexes(): Promise<void> {
+    try {
+      const client = await clientPromise;
+      const db = client.db(this.mongoDbName);
+      const collection = db.collection<BlogDocument>(this.mongoCollection);
+
+      await Promise.all([
+        collection.createIndex({ canonicalUrl: 1 }, { name: 'blog_canonical_url' }),
+        collection.createIndex({ urlAliases: 1 }, { name: 'blog_url_aliases' }),
+      ]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!errorMessage.includes('already exists')) {
+        console.warn('Failed to create URL indexes:', error);
+      }
+    }
+  }
+
+  /**
+   * Normalized URLs a scraped article was reached through: the requested
+   * URL, the URL served after redirects and the canonical URL
+   */
+  private collectUrlAliases(scrapedContent: ScrapedContent): string[] {
+    const urls = [scrapedContent.url, scrapedContent.metadata?.pageUrls[0], scrapedContent.canonicalUrl]
+      .filter((url): url is string => Boolean(url))
+      .map(url => normalizeUrl(url));
+
+    return Array.from(new Set(urls));
+  }
+
   /**
    * Get MongoDB collection statistics
    */
@@ -0,0 +1,175 @@
+import type { Db } from 'mongodb';
+import { keywordTerms, type CorpusFrequencies } from './keywords';
+
+// The fields of a stored article the table is counted from
+export interface CorpusArticle {
+  url: string;
+  canonicalUrl?: string;
+  content: string;
+  sourceLanguage?: string;
+}
+
+// Document frequency of one term across stored articles
+interface TermFrequency {
+  _id: string; // The term; CORPUS_SIZE_ID holds the article count
+  documents: number;
+}
+
+// Terms never contain '#', so this cannot clash with one
+const CORPUS_SIZE_ID = '#articles';
+
+/**
+ * How many stored articles contain each key-phrase term, counting an article
+ * once however many summary variants it has. Kept up to date as articles are
+ * saved and deleted, and built from the stored articles when missing.
+ */
+export class DocumentFrequencyService {
+  private readonly articleCollection = 'blog_posts';
+  private readonly termCollection = 'term_frequencies';
+  private rebuilding: Promise<void> | null = null;
+
+  constructor(private readonly getDb: () => Promise<Db>) {}
+
+  /**
+   * Document frequencies of the given terms, building the table the first
+   * time it is needed
+   */
+  async lookup(terms: string[]): Promise<CorpusFrequencies> {
+    await this.ensureTable();
+
+    const db = await this.getDb();
+    const entries = await db.collection<TermFrequency>(this.termCollection)
+      .find({ _id: { $in: [CORPUS_SIZE_ID, ...terms] } })
+      .toArray();
+
+    const frequencies: Record<string, number> = {};
+    let documentCount = 0;
+    for (const entry of entries) {
+      if (entry._id === CORPUS_SIZE_ID) {
+        documentCount = entry.documents;
+      } else {
+        frequencies[entry._id] = entry.documents;
+      }
+    }
+
+    return { documentCount, frequencies };
+  }
+
+  /**
+   * Count a just-stored article in, unless another variant of it already was
+   */
+  async articleSaved(article: CorpusArticle): Promise<void> {
+    if (await this.countVariants(article) <= 1) {
+      await this.update(keywordTerms(article.content, article.sourceLanguage), 1);
+    }
+  }
+
+  /**
+   * Count a just-deleted article out once its last variant is gone
+   */
+  async articleDeleted(article: CorpusArticle): Promise<void> {
+    if (await this.countVariants(article) === 0) {
+      await this.update(keywordTerms(article.content, article.sourceLanguage), -1);
+    }
+  }
+
+  /**
+   * Recount every stored article into a new collection and swap it in, so
+   * readers keep the old table until the new one is complete; returns the
+   * number of articles counted
+   */
+  async rebuild(): Promise<number> {
+    const db = await this.getDb();
+    const articles = db.collection<CorpusArticle>(this.articleCollection);
+    const staging = db.collection<TermFrequency>(`${this.termCollection}_rebuild_${Date.now().toString(36)}`);
+
+    const seen = new Set<string>();
+    const frequencies = new Map<string, number>();
+    const cursor = articles.find({}, { projection: { url: 1, canonicalUrl: 1, content: 1, sourceLanguage: 1 } });
+
+    for await (const article of cursor) {
+      const key = article.canonicalUrl || article.url;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      for (const term of keywordTerms(article.content || '', article.sourceLanguage)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+    }
+
+    try {
+      const entries: TermFrequency[] = Array.from(frequencies, ([term, documents]) => ({ _id: term, documents }));
+      for (let start = 0; start < entries.length; start += 1000) {
+        await staging.insertMany(entries.slice(start, start + 1000), { ordered: false });
+      }
+      // Written last: its presence marks the table as complete
+      await staging.insertOne({ _id: CORPUS_SIZE_ID, documents: seen.size });
+      await staging.rename(this.termCollection, { dropTarget: true });
+    } catch (error) {
+      await staging.drop().catch(() => undefined);
+      throw error;
+    }
+
+    return seen.size;
+  }
+
+  /**
+   * Build the table once, on first use; true when it was just built from
+   * the stored articles
+   */
+  private async ensureTable(): Promise<boolean> {
+    const db = await this.getDb();
+    const table = db.collection<TermFrequency>(this.termCollection);
+
+    if (await table.countDocuments({ _id: CORPUS_SIZE_ID }, { limit: 1 }) > 0) {
+      return false;
+    }
+
+    this.rebuilding ??= this.rebuild().then(
+      () => { this.rebuilding = null; },
+      error => {
+        this.rebuilding = null;
+        throw error;
+      }
+    );
+    await this.rebuilding;
+    return true;
+  }
+
+  /**
+   * Add (or remove) one article's terms
+   */
+  private async update(terms: string[], change: 1 | -1): Promise<void> {
+    try {
+      // A fresh table already reflects the change
+      if (await this.ensureTable()) {
+        return;
+      }
+
+      const db = await this.getDb();
+      const table = db.collection<TermFrequency>(this.termCollection);
+
+      await table.bulkWrite(
+        [CORPUS_SIZE_ID, ...terms].map(term => ({
+          updateOne: { filter: { _id: term }, update: { $inc: { documents: change } }, upsert: true },
+        })),
+        { ordered: false }
+      );
+      if (change < 0) {
+        await table.deleteMany({ _id: { $ne: CORPUS_SIZE_ID }, documents: { $lte: 0 } });
+      }
+    } catch (error) {
+      // Keywords only get less distinctive until the next rebuild
+      console.warn('Failed to update document frequencies:', error);
+    }
+  }
+
+  /**
+   * Stored records of the same article, across summary variants
+   */
+  private async countVariants(article: CorpusArticle): Promise<number> {
+    const db = await this.getDb();
+    const filter = article.canonicalUrl ? { canonicalUrl: article.canonicalUrl } : { url: article.url };
+    return db.collection<CorpusArticle>(this.articleCollection).countDocuments(filter, { limit: 2 });
+  }
+}
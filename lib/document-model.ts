@@ -0,0 +1,685 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { normalizeUnicodeText } from './text-utils';
+
+// What every block may record about where it came from
+interface BlockOrigin {
+  page?: number; // Page of the uploaded file (PDF) the block is on
+}
+
+export interface ParagraphBlock extends BlockOrigin {
+  type: 'paragraph';
+  text: string;
+}
+
+export interface ListBlock extends BlockOrigin {
+  type: 'list';
+  ordered: boolean;
+  items: string[];
+}
+
+export interface CodeBlock extends BlockOrigin {
+  type: 'code';
+  language?: string;
+  text: string;
+}
+
+export interface QuoteBlock extends BlockOrigin {
+  type: 'quote';
+  text: string;
+}
+
+export interface TableBlock extends BlockOrigin {
+  type: 'table';
+  caption?: string;
+  headers: string[]; // One per column; multi-row headers are joined
+  rows: string[][]; // Spanned cells are repeated, so rows are as wide as the table
+}
+
+export interface ImageBlock extends BlockOrigin {
+  type: 'image';
+  src: string; // Absolute URL
+  alt?: string;
+  caption?: string; // From the enclosing <figure>'s <figcaption>
+  width?: number;
+  height?: number;
+}
+
+export type ArticleBlock = ParagraphBlock | ListBlock | CodeBlock | QuoteBlock | TableBlock | ImageBlock;
+
+export interface ArticleSection {
+  heading?: string;
+  level: number; // 1-6 for headed sections, 0 for the lead section
+  blocks: ArticleBlock[];
+}
+
+export interface ArticleDocument {
+  sections: ArticleSection[];
+}
+
+// A table together with the heading of the section it appeared under
+export interface ArticleTable extends TableBlock {
+  section?: string;
+}
+
+// An image together with the heading of the section it appeared under
+export interface ArticleImage extends Omit<ImageBlock, 'type'> {
+  section?: string;
+}
+
+export interface PlainTextOptions {
+  tables?: boolean; // Include table rows (default true)
+}
+
+export interface MarkdownOptions {
+  images?: boolean; // Include images and their captions (default true)
+}
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'font',
+  'i', 'ins', 'kbd', 'label', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong',
+  'sub', 'sup', 'time', 'u', 'var', 'wbr',
+]);
+
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe',
+  'video', 'audio', 'button', 'input', 'select', 'textarea', 'form',
+  'nav', 'aside', 'head', 'meta', 'link',
+]);
+
+// Lazy-loading scripts keep the real image URL in one of these
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-actualsrc', 'src'];
+
+// Icons, avatars, tracking pixels and spacers are not article images
+const MIN_IMAGE_SIZE = 50;
+const DECORATIVE_IMAGE_URL = /\b(avatar|gravatar|emoji|icon|logo|spinner|spacer|pixel|blank)\b/i;
+
+/**
+ * Build a structured document model from an article HTML fragment.
+ * Image URLs are resolved against `baseUrl`; without one only absolute
+ * URLs are kept.
+ */
+export function buildArticleDocument(html: string, baseUrl?: string): ArticleDocument {
+  const $ = cheerio.load(html);
+  const builder = new DocumentBuilder($, baseUrl);
+  builder.walk($('body').get(0) ?? $.root().get(0)!);
+  return builder.finish();
+}
+
+/**
+ * Render a document model as Markdown
+ */
+export function renderMarkdown(document: ArticleDocument, title?: string, options: MarkdownOptions = {}): string {
+  const includeImages = options.images ?? true;
+  const parts: string[] = [];
+
+  if (title) {
+    parts.push(`# ${title}`);
+  }
+
+  for (const section of document.sections) {
+    if (section.heading) {
+      parts.push(`${'#'.repeat(Math.min(6, Math.max(1, section.level)))} ${section.heading}`);
+    }
+
+    for (const block of section.blocks) {
+      if (block.type !== 'image' || includeImages) {
+        parts.push(renderBlockMarkdown(block));
+      }
+    }
+  }
+
+  return parts.filter(part => part.length > 0).join('\n\n');
+}
+
+/**
+ * Flatten a document model to plain text, one block per paragraph and one
+ * tab-separated line per table row. Images and captions are left out.
+ */
+export function documentToPlainText(document: ArticleDocument, options: PlainTextOptions = {}): string {
+  const includeTables = options.tables ?? true;
+  const parts: string[] = [];
+
+  for (const section of document.sections) {
+    if (section.heading) {
+      parts.push(section.heading);
+    }
+
+    for (const block of section.blocks) {
+      switch (block.type) {
+        case 'list':
+          parts.push(block.items.join('\n'));
+          break;
+        case 'table':
+          if (includeTables) {
+            const rows = [block.headers, ...block.rows].filter(row => row.length > 0);
+            parts.push([block.caption || '', ...rows.map(row => row.join('\t'))].filter(Boolean).join('\n'));
+          }
+          break;
+        case 'image':
+          break;
+        default:
+          parts.push(block.text);
+      }
+    }
+  }
+
+  return parts.filter(part => part.trim().length > 0).join('\n\n');
+}
+
+/**
+ * Collect every list item in the document, in reading order
+ */
+export function getListItems(document: ArticleDocument): string[] {
+  return document.sections.flatMap(section =>
+    section.blocks.flatMap(block => (block.type === 'list' ? block.items : []))
+  );
+}
+
+/**
+ * Collect every table in the document with the heading it appeared under
+ */
+export function getTables(document: ArticleDocument): ArticleTable[] {
+  return document.sections.flatMap(section =>
+    section.blocks.flatMap(block => (block.type === 'table' ? [{ ...block, section: section.heading }] : []))
+  );
+}
+
+/**
+ * Collect every image in the document with the heading it appeared under
+ */
+export function getImages(document: ArticleDocument): ArticleImage[] {
+  return document.sections.flatMap(section =>
+    section.blocks.flatMap(block => (block.type === 'image'
+      ? [{ src: block.src, alt: block.alt, caption: block.caption, width: block.width, height: block.height, section: section.heading }]
+      : []))
+  );
+}
+
+/**
+ * Render a single block as Markdown
+ */
+function renderBlockMarkdown(block: ArticleBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return block.text;
+    case 'list':
+      return block.items
+        .map((item, index) => (block.ordered ? `${index + 1}. ${item}` : `- ${item}`))
+        .join('\n');
+    case 'code': {
+      const fence = block.text.includes('```') ? '~~~' : '```';
+      return `${fence}${block.language || ''}\n${block.text}\n${fence}`;
+    }
+    case 'quote':
+      return block.text
+        .split('\n')
+        .map(line => `> ${line}`)
+        .join('\n');
+    case 'table':
+      return renderTableMarkdown(block);
+    case 'image': {
+      const alt = (block.alt || '').replace(/[[\]]/g, '');
+      const image = `![${alt}](${block.src.replace(/[()\s]/g, encodeURIComponent)})`;
+      return block.caption ? `${image}\n*${block.caption}*` : image;
+    }
+  }
+}
+
+/**
+ * Render a table block as a GitHub-flavoured Markdown table
+ */
+function renderTableMarkdown(table: TableBlock): string {
+  const columnCount = Math.max(table.headers.length, ...table.rows.map(row => row.length));
+  if (columnCount === 0) {
+    return '';
+  }
+
+  const escapeCell = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const pad = (row: string[]) => Array.from({ length: columnCount }, (_, i) => escapeCell(row[i] ?? ''));
+
+  const headers = table.headers.length > 0 ? table.headers : Array.from({ length: columnCount }, () => '');
+  const lines = [
+    ...(table.caption ? [`*${table.caption}*`, ''] : []),
+    `| ${pad(headers).join(' | ')} |`,
+    `| ${Array.from({ length: columnCount }, () => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${pad(row).join(' | ')} |`),
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Read a colspan/rowspan attribute, capped so a bogus value cannot blow up
+ * the table
+ */
+function parseSpan(value: string | undefined): number {
+  const span = Number.parseInt(value || '', 10);
+  return Number.isFinite(span) && span > 1 ? Math.min(span, 50) : 1;
+}
+
+/**
+ * Read a width/height attribute in pixels
+ */
+function parseDimension(value: string | undefined): number | undefined {
+  const size = Number.parseInt(value || '', 10);
+  return Number.isFinite(size) && size > 0 ? size : undefined;
+}
+
+/**
+ * URL of the widest candidate in a srcset ("a.jpg 480w, b.jpg 1024w")
+ */
+function widestSrcsetCandidate(srcset: string): string | undefined {
+  let best: string | undefined;
+  let bestWidth = -1;
+
+  for (const candidate of srcset.split(/,\s+/)) {
+    const [url, descriptor = ''] = candidate.trim().split(/\s+/);
+    const width = Number.parseFloat(descriptor) * (descriptor.endsWith('x') ? 1000 : 1) || 0;
+    if (url && width > bestWidth) {
+      best = url;
+      bestWidth = width;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Combine stacked header rows into one header per column ("2024" over
+ * "Revenue" becomes "2024 Revenue"), skipping repeats from spanned cells
+ */
+function mergeHeaderRows(headerRows: string[][]): string[] {
+  const columnCount = Math.max(0, ...headerRows.map(row => row.length));
+
+  return Array.from({ length: columnCount }, (_, column) => {
+    const parts: string[] = [];
+    for (const row of headerRows) {
+      const value = row[column] ?? '';
+      if (value && parts[parts.length - 1] !== value) {
+        parts.push(value);
+      }
+    }
+    return parts.join(' ');
+  });
+}
+
+/**
+ * Walks the DOM in document order, splitting it into sections at headings
+ * and turning block-level elements into typed blocks
+ */
+class DocumentBuilder {
+  private readonly sections: ArticleSection[] = [{ level: 0, blocks: [] }];
+  private inlineBuffer: string[] = [];
+  // Images met inside running text, added after its paragraph
+  private inlineImages: Element[] = [];
+  private readonly seenImages = new Set<string>();
+  // From the nearest enclosing data-page attribute
+  private currentPage?: number;
+
+  constructor(
+    private readonly $: cheerio.CheerioAPI,
+    private readonly baseUrl?: string
+  ) {}
+
+  /**
+   * Append the blocks found under a node
+   */
+  walk(node: AnyNode): void {
+    for (const child of this.$(node).contents().toArray()) {
+      if (child.type === 'text') {
+        this.inlineBuffer.push(this.$(child).text());
+        continue;
+      }
+
+      if (child.type !== 'tag' && child.type !== 'script' && child.type !== 'style') {
+        continue;
+      }
+
+      const element = child as Element;
+      const tag = element.tagName.toLowerCase();
+
+      if (SKIPPED_TAGS.has(tag)) {
+        continue;
+      }
+
+      if (tag === 'br') {
+        this.inlineBuffer.push('\n');
+        continue;
+      }
+
+      if (tag === 'img' || tag === 'picture') {
+        this.inlineImages.push(element);
+        continue;
+      }
+
+      if (INLINE_TAGS.has(tag)) {
+        this.inlineBuffer.push(this.$(element).text());
+        this.inlineImages.push(...this.$(element).find('img').toArray());
+        continue;
+      }
+
+      this.flushParagraph();
+      this.handleBlock(element, tag);
+    }
+  }
+
+  /**
+   * Flush pending text and return the non-empty sections
+   */
+  finish(): ArticleDocument {
+    this.flushParagraph();
+    return {
+      sections: this.sections.filter(section => section.heading || section.blocks.length > 0),
+    };
+  }
+
+  /**
+   * Dispatch a block-level element to the matching block builder
+   */
+  private handleBlock(element: Element, tag: string): void {
+    const $element = this.$(element);
+
+    if (HEADING_TAGS.has(tag)) {
+      const heading = normalizeUnicodeText($element.text());
+      if (heading) {
+        this.sections.push({ heading, level: Number(tag.slice(1)), blocks: [] });
+      }
+      return;
+    }
+
+    switch (tag) {
+      case 'p':
+        this.addParagraph($element.text());
+        for (const image of $element.find('img').toArray()) {
+          this.addImage(image);
+        }
+        return;
+      case 'figure':
+        if ($element.find('img').length > 0 && $element.find('p, pre, blockquote, table').length === 0) {
+          this.addFigure(element);
+        } else {
+          this.walk(element);
+          this.flushParagraph();
+        }
+        return;
+      case 'ul':
+      case 'ol':
+        this.addList(element, tag === 'ol');
+        return;
+      case 'pre':
+        this.addCode(element);
+        return;
+      case 'blockquote': {
+        const text = normalizeUnicodeText($element.text());
+        if (text) {
+          this.addBlock({ type: 'quote', text });
+        }
+        return;
+      }
+      case 'table':
+        this.addTable(element);
+        return;
+      default: {
+        // Generic container (div, section, article, figure, ...): descend,
+        // tagging its blocks with the file page it marks
+        const page = Number($element.attr('data-page'));
+        const outerPage = this.currentPage;
+        if (Number.isInteger(page) && page > 0) {
+          this.currentPage = page;
+        }
+        this.walk(element);
+        this.flushParagraph();
+        this.currentPage = outerPage;
+      }
+    }
+  }
+
+  /**
+   * Add a paragraph block if it has any text
+   */
+  private addParagraph(raw: string): void {
+    const text = normalizeUnicodeText(raw);
+    if (text) {
+      this.addBlock({ type: 'paragraph', text });
+    }
+  }
+
+  /**
+   * Add a list block; nested lists become their own blocks after it
+   */
+  private addList(element: Element, ordered: boolean): void {
+    const items: string[] = [];
+    const nested: Element[] = [];
+
+    this.$(element).children('li').each((_, item) => {
+      const $item = this.$(item).clone();
+      $item.find('ul, ol').remove();
+      const text = normalizeUnicodeText($item.text());
+      if (text) {
+        items.push(text);
+      }
+      nested.push(...this.$(item).children('ul, ol').toArray());
+    });
+
+    if (items.length > 0) {
+      this.addBlock({ type: 'list', ordered, items });
+    }
+
+    for (const list of nested) {
+      this.addList(list, list.tagName.toLowerCase() === 'ol');
+    }
+  }
+
+  /**
+   * Add a code block, keeping whitespace and the declared language
+   */
+  private addCode(element: Element): void {
+    const $element = this.$(element);
+    const classNames = `${$element.attr('class') || ''} ${$element.find('code').attr('class') || ''}`;
+    const language = classNames.match(/(?:lang|language)-([\w+#-]+)/)?.[1];
+
+    // Keep indentation and line breaks; only strip trailing blank lines
+    const text = $element.text().normalize('NFC').replace(/\r\n?/g, '\n').replace(/\s+$/, '');
+    if (text.trim()) {
+      this.addBlock({ type: 'code', language, text });
+    }
+  }
+
+  /**
+   * Add a table block, taking leading all-`th` or `thead` rows as headers.
+   * Cells spanning several columns or rows are repeated in each, so every
+   * value lines up with its header. Layout tables are walked as containers.
+   */
+  private addTable(element: Element): void {
+    const $ = this.$;
+    const rows = $(element)
+      .find('tr')
+      .toArray()
+      .filter(row => $(row).closest('table').get(0) === element);
+
+    if (this.isLayoutTable(element, rows)) {
+      this.walk(element);
+      this.flushParagraph();
+      return;
+    }
+
+    const headerRows: string[][] = [];
+    const body: string[][] = [];
+    // Values of row-spanning cells still owed to the rows below, by column
+    const carried: Array<{ value: string; rowsLeft: number } | undefined> = [];
+
+    for (const row of rows) {
+      const cells = $(row).children('th, td').toArray();
+      const values: string[] = [];
+      let column = 0;
+
+      const fillCarried = () => {
+        while (carried[column]) {
+          const carry = carried[column]!;
+          values.push(carry.value);
+          carry.rowsLeft--;
+          if (carry.rowsLeft === 0) {
+            carried[column] = undefined;
+          }
+          column++;
+        }
+      };
+
+      for (const cell of cells) {
+        fillCarried();
+        const value = normalizeUnicodeText($(cell).text());
+        const colspan = parseSpan($(cell).attr('colspan'));
+        const rowspan = parseSpan($(cell).attr('rowspan'));
+
+        for (let i = 0; i < colspan; i++) {
+          values.push(value);
+          if (rowspan > 1) {
+            carried[column] = { value, rowsLeft: rowspan - 1 };
+          }
+          column++;
+        }
+      }
+      fillCarried();
+
+      const isHeader = body.length === 0 &&
+        (cells.every(cell => cell.tagName.toLowerCase() === 'th') || $(row).closest('thead').length > 0);
+
+      if (isHeader) {
+        headerRows.push(values);
+      } else if (values.some(value => value.length > 0)) {
+        body.push(values);
+      }
+    }
+
+    const headers = mergeHeaderRows(headerRows);
+    if (headers.length > 0 || body.length > 0) {
+      const caption = normalizeUnicodeText($(element).children('caption').first().text());
+      this.addBlock({ type: 'table', caption: caption || undefined, headers, rows: body });
+    }
+  }
+
+  /**
+   * Tables used to lay out a page rather than hold data: marked as
+   * presentational, nesting other tables, a single column, or holding
+   * headings inside cells
+   */
+  private isLayoutTable(element: Element, rows: Element[]): boolean {
+    const $table = this.$(element);
+
+    if ($table.attr('role') === 'presentation' || $table.find('table').length > 0) {
+      return true;
+    }
+
+    if ($table.find('td h1, td h2, td h3, td h4, td h5, td h6').length > 0) {
+      return true;
+    }
+
+    return rows.every(row => this.$(row).children('th, td').length <= 1);
+  }
+
+  /**
+   * Add the images of a <figure>, captioned by its <figcaption>
+   */
+  private addFigure(element: Element): void {
+    const $figure = this.$(element);
+    const caption = normalizeUnicodeText($figure.find('figcaption').first().text()) || undefined;
+
+    for (const image of $figure.find('img').toArray()) {
+      this.addImage(image, caption);
+    }
+  }
+
+  /**
+   * Add an image block unless the image is decorative, a tracking pixel,
+   * already added, or has no resolvable URL
+   */
+  private addImage(element: Element, caption?: string): void {
+    const $image = this.$(element);
+    // <picture> wraps the <img> that carries the alt text
+    const $img = element.tagName.toLowerCase() === 'picture' ? $image.find('img').first() : $image;
+    if ($img.length === 0 || $img.attr('role') === 'presentation' || $img.attr('aria-hidden') === 'true') {
+      return;
+    }
+
+    const src = this.resolveImageUrl($img);
+    const width = parseDimension($img.attr('width'));
+    const height = parseDimension($img.attr('height'));
+
+    if (!src || this.seenImages.has(src) || DECORATIVE_IMAGE_URL.test(src)) {
+      return;
+    }
+    if ((width !== undefined && width < MIN_IMAGE_SIZE) || (height !== undefined && height < MIN_IMAGE_SIZE)) {
+      return;
+    }
+
+    this.seenImages.add(src);
+    const alt = normalizeUnicodeText($img.attr('alt') || '') || undefined;
+    this.addBlock({ type: 'image', src, alt, caption, width, height });
+  }
+
+  /**
+   * Absolute URL of an image, preferring lazy-loading attributes and the
+   * widest srcset candidate over placeholder `src` values
+   */
+  private resolveImageUrl($img: cheerio.Cheerio<Element>): string | undefined {
+    const candidates = LAZY_SRC_ATTRIBUTES.map(attribute => $img.attr(attribute));
+    const srcset = $img.attr('data-srcset') || $img.attr('srcset');
+    if (srcset) {
+      candidates.unshift(widestSrcsetCandidate(srcset));
+    }
+
+    for (const candidate of candidates) {
+      const value = candidate?.trim();
+      if (!value || value.startsWith('data:')) {
+        continue;
+      }
+
+      try {
+        const url = new URL(value, this.baseUrl);
+        if (url.protocol === 'http:' || url.protocol === 'https:') {
+          return url.toString();
+        }
+      } catch {
+        // Relative URL without a base, or garbage
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Turn buffered inline text into a paragraph, followed by any images
+   * that were inside it
+   */
+  private flushParagraph(): void {
+    if (this.inlineBuffer.length > 0) {
+      this.addParagraph(this.inlineBuffer.join(''));
+      this.inlineBuffer = [];
+    }
+
+    if (this.inlineImages.length > 0) {
+      const images = this.inlineImages;
+      this.inlineImages = [];
+      for (const image of images) {
+        this.addImage(image);
+      }
+    }
+  }
+
+  /**
+   * Append a block to the current section, noting the file page it is on
+   */
+  private addBlock(block: ArticleBlock): void {
+    this.currentSection().blocks.push(this.currentPage ? { ...block, page: this.currentPage } : block);
+  }
+
+  /**
+   * Section that new blocks are appended to
+   */
+  private currentSection(): ArticleSection {
+    return this.sections[this.sections.length - 1];
+  }
+}
@@ -0,0 +1,208 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { normalizeUnicodeText } from './text-utils';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedEntry {
+  guid: string;
+  url: string;
+  title: string;
+  publishedAt?: string; // ISO 8601
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  siteUrl?: string;
+  entries: FeedEntry[];
+}
+
+/**
+ * Parse an RSS 2.0, Atom or JSON Feed document
+ */
+export function parseFeed(body: string, feedUrl: string): ParsedFeed {
+  const trimmed = body.trim().replace(/^\uFEFF/, '');
+
+  if (trimmed.startsWith('{')) {
+    return parseJsonFeed(trimmed, feedUrl);
+  }
+
+  const $ = cheerio.load(trimmed, { xml: true });
+
+  if ($('feed').length > 0) {
+    return parseAtomFeed($, feedUrl);
+  }
+
+  if ($('rss, rdf\\:RDF, channel').length > 0) {
+    return parseRssFeed($, feedUrl);
+  }
+
+  throw new Error('Unrecognized feed format (expected RSS 2.0, Atom or JSON Feed)');
+}
+
+/**
+ * Find feed URLs advertised by an HTML page via <link rel="alternate">
+ */
+export function discoverFeedUrls(html: string, pageUrl: string): string[] {
+  const $ = cheerio.load(html);
+  const types = ['application/rss+xml', 'application/atom+xml', 'application/feed+json', 'application/json'];
+
+  return $('link[rel~="alternate"][href]')
+    .filter((_, link) => types.includes(($(link).attr('type') || '').toLowerCase()))
+    .map((_, link) => resolveUrl($(link).attr('href') || '', pageUrl))
+    .get()
+    .filter((url): url is string => Boolean(url));
+}
+
+/**
+ * Parse RSS 2.0 (and RSS 1.0/RDF) documents
+ */
+function parseRssFeed($: cheerio.CheerioAPI, feedUrl: string): ParsedFeed {
+  const channel = $('channel').first();
+  const siteUrl = resolveUrl(channel.children('link').first().text().trim(), feedUrl);
+
+  const entries = $('item')
+    .map((_, item) => {
+      const $item = $(item);
+      const link = $item.children('link').first().text().trim() ||
+                   $item.attr('rdf:about') ||
+                   ($item.children('guid').attr('isPermaLink') !== 'false' ? $item.children('guid').text().trim() : '');
+      const url = resolveUrl(link, siteUrl || feedUrl);
+      if (!url) return null;
+
+      const entry: FeedEntry = {
+        guid: $item.children('guid').first().text().trim() || url,
+        url,
+        title: normalizeUnicodeText($item.children('title').first().text()) || url,
+        publishedAt: toIsoDate($item.children('pubDate').first().text() || $item.children('dc\\:date').first().text()),
+      };
+      return entry;
+    })
+    .get()
+    .filter((entry): entry is FeedEntry => entry !== null);
+
+  return {
+    format: 'rss',
+    title: normalizeUnicodeText(channel.children('title').first().text()) || feedUrl,
+    siteUrl,
+    entries,
+  };
+}
+
+/**
+ * Parse Atom 1.0 documents
+ */
+function parseAtomFeed($: cheerio.CheerioAPI, feedUrl: string): ParsedFeed {
+  const feed = $('feed').first();
+  const siteUrl = resolveUrl(pickAtomLink($, feed), feedUrl);
+
+  const entries = feed
+    .children('entry')
+    .map((_, element) => {
+      const $entry = $(element);
+      const url = resolveUrl(pickAtomLink($, $entry), siteUrl || feedUrl);
+      if (!url) return null;
+
+      const entry: FeedEntry = {
+        guid: $entry.children('id').first().text().trim() || url,
+        url,
+        title: normalizeUnicodeText($entry.children('title').first().text()) || url,
+        publishedAt: toIsoDate(
+          $entry.children('published').first().text() || $entry.children('updated').first().text()
+        ),
+      };
+      return entry;
+    })
+    .get()
+    .filter((entry): entry is FeedEntry => entry !== null);
+
+  return {
+    format: 'atom',
+    title: normalizeUnicodeText(feed.children('title').first().text()) || feedUrl,
+    siteUrl,
+    entries,
+  };
+}
+
+/**
+ * Parse JSON Feed 1.0/1.1 documents
+ */
+function parseJsonFeed(body: string, feedUrl: string): ParsedFeed {
+  let data: {
+    version?: string;
+    title?: string;
+    home_page_url?: string;
+    items?: Array<{ id?: string | number; url?: string; external_url?: string; title?: string; date_published?: string }>;
+  };
+
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new Error('Invalid JSON Feed document');
+  }
+
+  if (!data.version?.includes('jsonfeed.org') || !Array.isArray(data.items)) {
+    throw new Error('Unrecognized feed format (expected RSS 2.0, Atom or JSON Feed)');
+  }
+
+  const siteUrl = data.home_page_url ? resolveUrl(data.home_page_url, feedUrl) : undefined;
+  const entries = data.items
+    .map(item => {
+      const url = resolveUrl(item.url || item.external_url || '', siteUrl || feedUrl);
+      if (!url) return null;
+
+      const entry: FeedEntry = {
+        guid: item.id !== undefined ? String(item.id) : url,
+        url,
+        title: normalizeUnicodeText(item.title || '') || url,
+        publishedAt: toIsoDate(item.date_published || ''),
+      };
+      return entry;
+    })
+    .filter((entry): entry is FeedEntry => entry !== null);
+
+  return {
+    format: 'json',
+    title: normalizeUnicodeText(data.title || '') || feedUrl,
+    siteUrl,
+    entries,
+  };
+}
+
+/**
+ * Prefer rel="alternate" (or rel-less) HTML links in Atom
+ */
+function pickAtomLink($: cheerio.CheerioAPI, parent: cheerio.Cheerio<Element>): string {
+  const links = parent.children('link').toArray();
+  const alternate = links.find(link => {
+    const rel = $(link).attr('rel');
+    return !rel || rel === 'alternate';
+  });
+
+  return $(alternate ?? links[0]).attr('href') || '';
+}
+
+/**
+ * Resolve a possibly relative URL; returns undefined for non-http(s) or invalid URLs
+ */
+function resolveUrl(value: string, base: string): string | undefined {
+  if (!value) return undefined;
+
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert RFC 822 / RFC 3339 dates to ISO 8601
+ */
+function toIsoDate(value: string): string | undefined {
+  if (!value?.trim()) return undefined;
+
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,497 @@
+import { ObjectId } from 'mongodb';
+import clientPromise from './mongodb';
+import { parseFeed, discoverFeedUrls, type FeedEntry, type FeedFormat, type ParsedFeed } from './feed-parser';
+import { processArticleUrl } from './pipeline';
+import { safeFetch } from './safe-http';
+import { decodeBody } from './charset';
+import { DEFAULT_USER_AGENT } from './robots';
+import type { DatabaseResult } from './database';
+
+// Registered feed
+export interface FeedDocument {
+  _id?: ObjectId;
+  url: string;
+  title: string;
+  format?: FeedFormat;
+  siteUrl?: string;
+  createdAt: Date;
+  lastFetchedAt?: Date;
+  lastSuccessAt?: Date;
+  lastError?: string;
+  consecutiveFailures: number;
+  processedCount: number;
+  failedCount: number;
+}
+
+// One feed entry that has been run through the pipeline (or failed to)
+export interface FeedEntryDocument {
+  _id?: ObjectId;
+  feedId: ObjectId;
+  guid: string;
+  url: string;
+  title: string;
+  publishedAt?: string;
+  status: 'processed' | 'failed';
+  attempts: number;
+  error?: string;
+  mongoId?: string;
+  supabaseId?: number;
+  processedAt: Date;
+}
+
+export interface FeedStatus extends FeedDocument {
+  recentFailures: FeedEntryDocument[];
+}
+
+export interface FeedRefreshResult {
+  feedId: string;
+  fetchedEntries: number;
+  newEntries: number;
+  processed: Array<{ url: string; title: string; mongoId?: string; supabaseId?: number; duplicate: boolean }>;
+  failed: Array<{ url: string; title: string; error: string }>;
+  skipped: number; // New entries left for a later refresh
+}
+
+export interface FeedConfig {
+  timeout: number;
+  maxEntriesPerRefresh: number;
+  maxEntryAttempts: number;
+  userAgent: string;
+  maxRedirects: number;
+  maxResponseBytes: number;
+}
+
+// Content types feeds (and pages advertising them) are served with
+const FEED_CONTENT_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json',
+  'application/json',
+  'application/xml',
+  'text/xml',
+  'text/html',
+  'application/xhtml+xml',
+  'text/plain',
+];
+
+export class FeedService {
+  private readonly mongoDbName = 'blog_summarizer';
+  private readonly feedsCollection = 'feeds';
+  private readonly entriesCollection = 'feed_entries';
+
+  private readonly config: FeedConfig = {
+    timeout: 15000,
+    maxEntriesPerRefresh: 10,
+    maxEntryAttempts: 3,
+    userAgent: DEFAULT_USER_AGENT,
+    maxRedirects: 5,
+    maxResponseBytes: 5 * 1024 * 1024,
+  };
+
+  /**
+   * Register a feed. Accepts a feed URL or a page that advertises one.
+   */
+  async addFeed(url: string): Promise<DatabaseResult<FeedDocument>> {
+    try {
+      const { feedUrl, feed } = await this.fetchFeed(url, true);
+      const feeds = await this.getFeedsCollection();
+
+      const existing = await feeds.findOne({ url: feedUrl });
+      if (existing) {
+        return {
+          success: false,
+          data: existing,
+          error: 'Feed is already registered',
+        };
+      }
+
+      const document: FeedDocument = {
+        url: feedUrl,
+        title: feed.title,
+        format: feed.format,
+        siteUrl: feed.siteUrl,
+        createdAt: new Date(),
+        consecutiveFailures: 0,
+        processedCount: 0,
+        failedCount: 0,
+      };
+
+      const result = await feeds.insertOne(document);
+      await this.ensureIndexes();
+
+      return {
+        success: true,
+        data: { ...document, _id: result.insertedId },
+      };
+    } catch (error) {
+      console.error('Feed registration error:', error);
+      return {
+        success: false,
+        error: `Failed to add feed: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * List registered feeds, newest first
+   */
+  async listFeeds(): Promise<DatabaseResult<FeedDocument[]>> {
+    try {
+      const feeds = await this.getFeedsCollection();
+      const documents = await feeds.find({}).sort({ createdAt: -1 }).toArray();
+
+      return {
+        success: true,
+        data: documents,
+      };
+    } catch (error) {
+      console.error('Feed list error:', error);
+      return {
+        success: false,
+        error: `Failed to list feeds: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Get one feed with its most recent entry failures
+   */
+  async getFeedStatus(id: string): Promise<DatabaseResult<FeedStatus>> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        return {
+          success: false,
+          error: 'Invalid ObjectId format',
+        };
+      }
+
+      const feeds = await this.getFeedsCollection();
+      const feed = await feeds.findOne({ _id: new ObjectId(id) });
+
+      if (!feed) {
+        return {
+          success: false,
+          error: 'Feed not found',
+        };
+      }
+
+      const entries = await this.getEntriesCollection();
+      const recentFailures = await entries
+        .find({ feedId: feed._id, status: 'failed' })
+        .sort({ processedAt: -1 })
+        .limit(20)
+        .toArray();
+
+      return {
+        success: true,
+        data: { ...feed, recentFailures },
+      };
+    } catch (error) {
+      console.error('Feed status error:', error);
+      return {
+        success: false,
+        error: `Failed to get feed status: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Remove a feed and its entry history (summaries already saved are kept)
+   */
+  async removeFeed(id: string): Promise<DatabaseResult<boolean>> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        return {
+          success: false,
+          error: 'Invalid ObjectId format',
+        };
+      }
+
+      const feedId = new ObjectId(id);
+      const feeds = await this.getFeedsCollection();
+      const entries = await this.getEntriesCollection();
+
+      const result = await feeds.deleteOne({ _id: feedId });
+      if (result.deletedCount > 0) {
+        await entries.deleteMany({ feedId });
+      }
+
+      return {
+        success: result.deletedCount > 0,
+        data: result.deletedCount > 0,
+        error: result.deletedCount === 0 ? 'Feed not found' : undefined,
+      };
+    } catch (error) {
+      console.error('Feed delete error:', error);
+      return {
+        success: false,
+        error: `Failed to remove feed: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Fetch a feed and summarize every entry not processed yet
+   */
+  async refreshFeed(id: string): Promise<DatabaseResult<FeedRefreshResult>> {
+    if (!ObjectId.isValid(id)) {
+      return {
+        success: false,
+        error: 'Invalid ObjectId format',
+      };
+    }
+
+    const feedId = new ObjectId(id);
+
+    try {
+      const feeds = await this.getFeedsCollection();
+      const feedDocument = await feeds.findOne({ _id: feedId });
+
+      if (!feedDocument) {
+        return {
+          success: false,
+          error: 'Feed not found',
+        };
+      }
+
+      let entries: FeedEntry[];
+      try {
+        const { feed } = await this.fetchFeed(feedDocument.url, false);
+        entries = feed.entries;
+      } catch (error) {
+        await feeds.updateOne(
+          { _id: feedId },
+          {
+            $set: { lastFetchedAt: new Date(), lastError: this.getErrorMessage(error) },
+            $inc: { consecutiveFailures: 1 },
+          }
+        );
+        throw error;
+      }
+
+      const pending = await this.findPendingEntries(feedId, entries);
+      // Oldest first, so a capped refresh catches up in publication order
+      const batch = pending.reverse().slice(0, this.config.maxEntriesPerRefresh);
+
+      const result: FeedRefreshResult = {
+        feedId: id,
+        fetchedEntries: entries.length,
+        newEntries: pending.length,
+        processed: [],
+        failed: [],
+        skipped: pending.length - batch.length,
+      };
+
+      for (const entry of batch) {
+        await this.processEntry(feedId, entry, result);
+      }
+
+      const now = new Date();
+      await feeds.updateOne(
+        { _id: feedId },
+        {
+          $set: {
+            lastFetchedAt: now,
+            lastSuccessAt: now,
+            consecutiveFailures: 0,
+            ...(result.failed.length > 0 && {
+              lastError: `${result.failed.length} entr${result.failed.length === 1 ? 'y' : 'ies'} failed`,
+            }),
+          },
+          ...(result.failed.length === 0 && { $unset: { lastError: '' } }),
+          $inc: {
+            processedCount: result.processed.length,
+            failedCount: result.failed.length,
+          },
+        }
+      );
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      console.error('Feed refresh error:', error);
+      return {
+        success: false,
+        error: `Failed to refresh feed: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Entries whose GUID and URL have not been seen for this feed, plus
+   * earlier failures that still have attempts left
+   */
+  private async findPendingEntries(feedId: ObjectId, entries: FeedEntry[]): Promise<FeedEntry[]> {
+    const collection = await this.getEntriesCollection();
+    const known = await collection
+      .find({
+        feedId,
+        $or: [
+          { guid: { $in: entries.map(entry => entry.guid) } },
+          { url: { $in: entries.map(entry => entry.url) } },
+        ],
+      })
+      .toArray();
+
+    const done = new Set<string>();
+    for (const entry of known) {
+      if (entry.status === 'processed' || entry.attempts >= this.config.maxEntryAttempts) {
+        done.add(`guid:${entry.guid}`);
+        done.add(`url:${entry.url}`);
+      }
+    }
+
+    const seen = new Set<string>();
+    return entries.filter(entry => {
+      if (done.has(`guid:${entry.guid}`) || done.has(`url:${entry.url}`) || seen.has(entry.url)) {
+        return false;
+      }
+      seen.add(entry.url);
+      return true;
+    });
+  }
+
+  /**
+   * Run one entry through the pipeline and record the outcome
+   */
+  private async processEntry(feedId: ObjectId, entry: FeedEntry, result: FeedRefreshResult): Promise<void> {
+    const collection = await this.getEntriesCollection();
+
+    try {
+      const outcome = await processArticleUrl(entry.url);
+      if (outcome.status === 'processed' && !outcome.saveResult.success) {
+        throw new Error(outcome.saveResult.error || 'Failed to save summary');
+      }
+
+      // Articles summarized earlier (e.g. cross-posted or submitted by hand) are linked, not redone
+      const saved: { mongoId?: string; supabaseId?: number } = outcome.status === 'duplicate'
+        ? { mongoId: outcome.existing._id?.toString() }
+        : outcome.saveResult.data ?? {};
+
+      await collection.updateOne(
+        { feedId, guid: entry.guid },
+        {
+          $set: {
+            url: entry.url,
+            title: entry.title,
+            publishedAt: entry.publishedAt,
+            status: 'processed',
+            mongoId: saved.mongoId,
+            supabaseId: saved.supabaseId,
+            processedAt: new Date(),
+          },
+          $unset: { error: '' },
+          $inc: { attempts: 1 },
+        },
+        { upsert: true }
+      );
+
+      result.processed.push({
+        url: entry.url,
+        title: entry.title,
+        mongoId: saved.mongoId,
+        supabaseId: saved.supabaseId,
+        duplicate: outcome.status === 'duplicate',
+      });
+    } catch (error) {
+      const message = this.getErrorMessage(error);
+      console.warn(`Feed entry failed (${entry.url}):`, message);
+
+      await collection.updateOne(
+        { feedId, guid: entry.guid },
+        {
+          $set: {
+            url: entry.url,
+            title: entry.title,
+            publishedAt: entry.publishedAt,
+            status: 'failed',
+            error: message,
+            processedAt: new Date(),
+          },
+          $inc: { attempts: 1 },
+        },
+        { upsert: true }
+      );
+
+      result.failed.push({ url: entry.url, title: entry.title, error: message });
+    }
+  }
+
+  /**
+   * Download and parse a feed; optionally follow feed discovery links on HTML pages
+   */
+  private async fetchFeed(url: string, allowDiscovery: boolean): Promise<{ feedUrl: string; feed: ParsedFeed }> {
+    const response = await safeFetch(url, {
+      timeout: this.config.timeout,
+      headers: {
+        'User-Agent': this.config.userAgent,
+        'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, text/html;q=0.8, */*;q=0.5',
+      },
+      maxRedirects: this.config.maxRedirects,
+      maxResponseBytes: this.config.maxResponseBytes,
+      allowedContentTypes: FEED_CONTENT_TYPES,
+    });
+
+    const body = decodeBody(response.body, response.contentType).text;
+    const contentType = response.contentType;
+
+    if (allowDiscovery && /html/i.test(contentType) && !/xml/i.test(contentType)) {
+      const [discovered] = discoverFeedUrls(body, response.url);
+      if (!discovered) {
+        throw new Error('No RSS, Atom or JSON feed found at this URL');
+      }
+      return this.fetchFeed(discovered, false);
+    }
+
+    return { feedUrl: url, feed: parseFeed(body, url) };
+  }
+
+  /**
+   * Create lookup indexes used by refreshes
+   */
+  private async ensureIndexes(): Promise<void> {
+    try {
+      const feeds = await this.getFeedsCollection();
+      const entries = await this.getEntriesCollection();
+
+      await Promise.all([
+        feeds.createIndex({ url: 1 }, { unique: true, name: 'feed_url' }),
+        entries.createIndex({ feedId: 1, guid: 1 }, { unique: true, name: 'feed_entry_guid' }),
+        entries.createIndex({ feedId: 1, url: 1 }, { name: 'feed_entry_url' }),
+      ]);
+    } catch (error) {
+      console.warn('Failed to create feed indexes:', error);
+    }
+  }
+
+  /**
+   * Get the registered feeds collection
+   */
+  private async getFeedsCollection() {
+    const client = await clientPromise;
+    return client.db(this.mongoDbName).collection<FeedDocument>(this.feedsCollection);
+  }
+
+  /**
+   * Get the processed feed entries collection
+   */
+  private async getEntriesCollection() {
+    const client = await clientPromise;
+    return client.db(this.mongoDbName).collection<FeedEntryDocument>(this.entriesCollection);
+  }
+
+  /**
+   * Extract error message from unknown error type
+   */
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    return String(error);
+  }
+}
+
+export const feedService = new FeedService();
@@ -0,0 +1,231 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  safeFetch,
+  SafeFetchOptions,
+  SafeFetchResponse,
+  ResponseTooLargeError,
+  UnsupportedContentTypeError,
+} from './safe-http';
+import { CachingFetcher } from './page-cache';
+
+/**
+ * Transport used by WebScraper to download pages
+ */
+export interface PageFetcher {
+  fetch(url: string, options: SafeFetchOptions): Promise<SafeFetchResponse>;
+}
+
+export type FetchMode = 'live' | 'record' | 'replay';
+
+// Sidecar metadata stored next to each recorded body
+export interface PageFixture {
+  url: string; // Requested URL
+  finalUrl: string; // URL after redirects
+  status: number;
+  headers: Record<string, string>;
+  contentType: string;
+  bodyFile: string; // Relative to the fixture directory
+  recordedAt: string; // ISO 8601
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(readonly url: string, readonly directory: string) {
+    super(`No recorded fixture for ${url} in ${directory}`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Live HTTP fetcher with the SSRF/size/content-type policy applied
+ */
+export class HttpFetcher implements PageFetcher {
+  /**
+   * Fetch a page over the network
+   */
+  fetch(url: string, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+    return safeFetch(url, options);
+  }
+}
+
+/**
+ * Fetches through another fetcher and saves every response to disk so it
+ * can be replayed later with ReplayFetcher
+ */
+export class RecordingFetcher implements PageFetcher {
+  constructor(
+    private readonly directory: string,
+    private readonly inner: PageFetcher = new HttpFetcher()
+  ) {}
+
+  /**
+   * Fetch a page and record the response as a fixture
+   */
+  async fetch(url: string, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+    const response = await this.inner.fetch(url, options);
+
+    try {
+      await this.save(url, response);
+    } catch (error) {
+      // Recording is best effort; never fail the scrape because of it
+      console.warn(`Failed to record fixture for ${url}:`, error);
+    }
+
+    return response;
+  }
+
+  /**
+   * Write the body and its metadata sidecar
+   */
+  private async save(url: string, response: SafeFetchResponse): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const name = fixtureName(url);
+    const fixture: PageFixture = {
+      url,
+      finalUrl: response.url,
+      status: response.status,
+      headers: response.headers,
+      contentType: response.contentType,
+      bodyFile: `${name}.body`,
+      recordedAt: new Date().toISOString(),
+    };
+
+    await fs.writeFile(path.join(this.directory, fixture.bodyFile), response.body);
+    await fs.writeFile(path.join(this.directory, `${name}.json`), JSON.stringify(fixture, null, 2) + '\n');
+  }
+}
+
+/**
+ * Serves recorded fixtures by URL without touching the network
+ */
+export class ReplayFetcher implements PageFetcher {
+  private index: Promise<Map<string, PageFixture>> | null = null;
+
+  constructor(
+    private readonly directory: string,
+    // Optional fetcher for URLs missing from the corpus; by default they fail
+    private readonly fallback?: PageFetcher
+  ) {}
+
+  /**
+   * Return the recorded response for a URL
+   */
+  async fetch(url: string, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+    options.signal?.throwIfAborted();
+
+    const fixtures = await this.loadIndex();
+    const fixture = fixtures.get(url) ?? fixtures.get(stripHash(url));
+
+    if (!fixture) {
+      if (this.fallback) {
+        return this.fallback.fetch(url, options);
+      }
+      throw new FixtureNotFoundError(url, this.directory);
+    }
+
+    const body = await fs.readFile(path.join(this.directory, fixture.bodyFile));
+
+    // Apply the same response policy as live fetches so replays behave identically
+    const mimeType = fixture.contentType.split(';')[0].trim().toLowerCase();
+    if (options.allowedContentTypes.length > 0 && mimeType && !options.allowedContentTypes.includes(mimeType)) {
+      throw new UnsupportedContentTypeError(mimeType);
+    }
+    if (body.length > options.maxResponseBytes) {
+      throw new ResponseTooLargeError(options.maxResponseBytes);
+    }
+
+    return {
+      url: fixture.finalUrl,
+      status: fixture.status,
+      headers: fixture.headers,
+      contentType: fixture.contentType,
+      body,
+    };
+  }
+
+  /**
+   * Read all fixture sidecars once, keyed by requested and final URL
+   */
+  private loadIndex(): Promise<Map<string, PageFixture>> {
+    if (!this.index) {
+      this.index = (async () => {
+        const fixtures = new Map<string, PageFixture>();
+        let files: string[] = [];
+
+        try {
+          files = await fs.readdir(this.directory);
+        } catch {
+          console.warn(`Fixture directory ${this.directory} does not exist`);
+        }
+
+        for (const file of files.filter(file => file.endsWith('.json')).sort()) {
+          try {
+            const fixture = JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8')) as PageFixture;
+            fixtures.set(fixture.url, fixture);
+            if (!fixtures.has(fixture.finalUrl)) {
+              fixtures.set(fixture.finalUrl, fixture);
+            }
+          } catch (error) {
+            console.warn(`Skipping unreadable fixture ${file}:`, error);
+          }
+        }
+
+        return fixtures;
+      })();
+    }
+
+    return this.index;
+  }
+}
+
+/**
+ * Build the fetcher selected by SCRAPER_FETCH_MODE (live, record or replay),
+ * with fixtures in SCRAPER_FIXTURES_DIR (default: fixtures/pages). Live
+ * fetches go through the page cache (disable with SCRAPER_CACHE=off).
+ */
+export function createDefaultFetcher(): PageFetcher {
+  const mode = (process.env.SCRAPER_FETCH_MODE || 'live').toLowerCase() as FetchMode;
+  const directory = path.resolve(process.env.SCRAPER_FIXTURES_DIR || 'fixtures/pages');
+
+  switch (mode) {
+    case 'record':
+      return new RecordingFetcher(directory);
+    case 'replay':
+      return new ReplayFetcher(directory);
+    case 'live':
+      return new CachingFetcher(new HttpFetcher());
+    default:
+      console.warn(`Unknown SCRAPER_FETCH_MODE "${mode}", using live fetching`);
+      return new CachingFetcher(new HttpFetcher());
+  }
+}
+
+/**
+ * Readable, collision-safe file name for a URL: host, path slug and hash
+ */
+function fixtureName(url: string): string {
+  const hash = createHash('sha1').update(url).digest('hex').slice(0, 12);
+
+  let slug = 'page';
+  try {
+    const parsed = new URL(url);
+    slug = `${parsed.hostname}${parsed.pathname}`
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 80) || 'page';
+  } catch {
+    // Keep the generic slug
+  }
+
+  return `${slug}-${hash}`;
+}
+
+/**
+ * Drop the fragment from a URL
+ */
+function stripHash(url: string): string {
+  return url.split('#')[0];
+}
@@ -0,0 +1,350 @@
+/**
+ * Grounding: ties every summary sentence and key point to the passages of
+ * the source text that support it, and flags sentences, numbers and names
+ * the source does not back up
+ */
+
+import { contentTerms } from './stop-words';
+import { sentenceSpans, splitSentences } from './text-utils';
+
+export interface SourceReference {
+  paragraph: number; // Index among the content's blank-line separated paragraphs
+  start: number; // Character offsets of the supporting sentence in the content
+  end: number;
+  text: string;
+  similarity: number; // 0-1
+}
+
+export interface FaithfulnessIssue {
+  type: 'unsupported-claim' | 'number' | 'name';
+  value: string; // The sentence, number or name in question
+  message: string;
+}
+
+export interface GroundedSentence {
+  text: string; // As shown, including any bullet or Q&A marker
+  line: number; // Line of the summary it is on
+  sources: SourceReference[]; // Best match first
+  supported: boolean;
+  issues: FaithfulnessIssue[];
+}
+
+export interface SummaryGrounding {
+  summary: GroundedSentence[];
+  keyPoints: GroundedSentence[];
+  // Lexical matching needs the summary and the source in one language;
+  // across languages only numbers are checked
+  method: 'lexical' | 'numbers-only';
+  unsupportedCount: number; // Sentences and key points with any issue
+}
+
+export interface SourceParagraph {
+  index: number;
+  start: number; // Character offset in the content
+  text: string;
+}
+
+interface SourceSentence {
+  paragraph: number;
+  start: number;
+  end: number;
+  text: string;
+  vector: Map<string, number>;
+}
+
+interface SourceIndex {
+  sentences: SourceSentence[];
+  idf: (term: string) => number;
+}
+
+// Below this the best match shares only incidental words
+const MIN_SOURCE_SIMILARITY = 0.15;
+// A sentence this close to one source sentence restates it
+const SUPPORTED_SIMILARITY = 0.3;
+// Or most of its words appear in the article, for sentences that combine facts
+const SUPPORTED_COVERAGE = 0.75;
+const MAX_SOURCES = 2;
+
+const LINE_MARKER = /^\s*(?:[-*\u2022]\s+|\d+[.)]\s+|TL;DR:\s*|[QA]:\s*)/i;
+// A short capitalized label ahead of a key point ("Revenue Growth: ...")
+const LABEL_PREFIX = /^[\p{Lu}\p{N}][\p{L}\p{M}\p{N}&'\u2019\s-]{0,40}:\s+/u;
+
+/**
+ * Ground a summary and its key points in the content they were made from
+ */
+export function groundSummary(
+  summary: string,
+  keyPoints: string[],
+  content: string,
+  options: { sourceLanguage?: string; summaryLanguage?: string } = {}
+): SummaryGrounding {
+  const sourceLanguage = options.sourceLanguage && options.sourceLanguage !== 'und' ? options.sourceLanguage : undefined;
+  const summaryLanguage = options.summaryLanguage ?? 'en';
+  const method = !sourceLanguage || sourceLanguage === summaryLanguage ? 'lexical' : 'numbers-only';
+
+  const source = indexSourceSentences(content, sourceLanguage);
+  const sourceNumbers = new Set(extractNumbers(content));
+  const normalizedContent = content.normalize('NFC').replace(/\s+/g, ' ').toLowerCase();
+  const sourceTerms = new Set(contentTerms(content, sourceLanguage));
+  const ground = (text: string, line: number) =>
+    groundSentence(text, line, { source, sourceNumbers, normalizedContent, sourceTerms, method, language: summaryLanguage });
+
+  const summarySentences = splitSummary(summary).map(({ text, line }) => ground(text, line));
+  const keyPointSentences = keyPoints.map((point, index) => ground(point, index));
+
+  return {
+    summary: summarySentences,
+    keyPoints: keyPointSentences,
+    method,
+    unsupportedCount: [...summarySentences, ...keyPointSentences].filter(sentence => sentence.issues.length > 0).length,
+  };
+}
+
+/**
+ * The content's paragraphs, with their offsets, as the references count them
+ */
+export function splitParagraphs(content: string): SourceParagraph[] {
+  const paragraphs: SourceParagraph[] = [];
+  const pattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+
+  for (const match of content.matchAll(pattern)) {
+    if (match[0].trim()) {
+      paragraphs.push({ index: paragraphs.length, start: match.index!, text: match[0] });
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * The paragraphs referenced by a grounding, so a reader can see each cited
+ * sentence in context without the whole article
+ */
+export function citedParagraphs(content: string, grounding: SummaryGrounding): SourceParagraph[] {
+  const cited = new Set(
+    [...grounding.summary, ...grounding.keyPoints].flatMap(sentence => sentence.sources.map(source => source.paragraph))
+  );
+  return splitParagraphs(content).filter(paragraph => cited.has(paragraph.index));
+}
+
+/**
+ * Every sentence of the content with its paragraph, offsets and TF-IDF vector
+ */
+function indexSourceSentences(content: string, language?: string): SourceIndex {
+  const sentences: Array<Omit<SourceSentence, 'vector'> & { terms: string[] }> = [];
+
+  for (const paragraph of splitParagraphs(content)) {
+    // List items and table rows sit on lines of their own
+    let lineStart = 0;
+    for (const line of paragraph.text.split('\n')) {
+      for (const { text, start, end } of sentenceSpans(line)) {
+        const offset = paragraph.start + lineStart;
+        sentences.push({ paragraph: paragraph.index, start: offset + start, end: offset + end, text, terms: contentTerms(text, language) });
+      }
+      lineStart += line.length + 1;
+    }
+  }
+
+  const documentFrequency = new Map<string, number>();
+  for (const { terms } of sentences) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const idf = (term: string) => Math.log(1 + sentences.length / (documentFrequency.get(term) || 1));
+
+  return {
+    sentences: sentences.map(({ terms, ...sentence }) => ({ ...sentence, vector: toVector(terms, idf) })),
+    idf,
+  };
+}
+
+/**
+ * Find the passages supporting one sentence and check it against them
+ */
+function groundSentence(
+  text: string,
+  line: number,
+  context: {
+    source: SourceIndex;
+    sourceNumbers: Set<string>;
+    normalizedContent: string;
+    sourceTerms: Set<string>;
+    method: SummaryGrounding['method'];
+    language: string;
+  }
+): GroundedSentence {
+  const claim = text.replace(LINE_MARKER, '').trim();
+  const issues: FaithfulnessIssue[] = [];
+
+  // Numbers are written the same way in every language we summarize
+  for (const number of extractNumbers(claim)) {
+    if (!context.sourceNumbers.has(number)) {
+      issues.push({ type: 'number', value: number, message: `The number ${number} does not appear in the source` });
+    }
+  }
+
+  if (context.method === 'numbers-only') {
+    return { text, line, sources: [], supported: issues.length === 0, issues };
+  }
+
+  const terms = contentTerms(claim, context.language);
+  const sources = findSources(terms, context.source);
+
+  // Questions in Q&A summaries make no claim of their own
+  if (/^Q:/i.test(text.trim())) {
+    return { text, line, sources, supported: true, issues: [] };
+  }
+
+  for (const name of extractNames(claim)) {
+    if (!mentionsName(name, context.normalizedContent, context.sourceTerms)) {
+      issues.push({ type: 'name', value: name, message: `"${name}" is not mentioned in the source` });
+    }
+  }
+
+  const bestSimilarity = sources[0]?.similarity ?? 0;
+  const coverage = termCoverage(terms, context.source.sentences);
+  const claimSupported = terms.length === 0 || bestSimilarity >= SUPPORTED_SIMILARITY ||
+                         (coverage >= SUPPORTED_COVERAGE && bestSimilarity >= MIN_SOURCE_SIMILARITY);
+  if (!claimSupported) {
+    issues.unshift({
+      type: 'unsupported-claim',
+      value: claim,
+      message: sources.length > 0
+        ? 'Only loosely matches the source; check the cited passage'
+        : 'No passage in the source supports this sentence',
+    });
+  }
+
+  return { text, line, sources, supported: issues.length === 0, issues };
+}
+
+/**
+ * The source sentences most similar to a set of terms
+ */
+function findSources(terms: string[], source: SourceIndex): SourceReference[] {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const vector = toVector(terms, source.idf);
+  return source.sentences
+    .map(sentence => ({ sentence, similarity: cosine(vector, sentence.vector) }))
+    .filter(match => match.similarity >= MIN_SOURCE_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity || a.sentence.start - b.sentence.start)
+    .slice(0, MAX_SOURCES)
+    .map(({ sentence, similarity }) => ({
+      paragraph: sentence.paragraph,
+      start: sentence.start,
+      end: sentence.end,
+      text: sentence.text,
+      similarity: Number(similarity.toFixed(3)),
+    }));
+}
+
+/**
+ * Share of the terms that appear anywhere in the source
+ */
+function termCoverage(terms: string[], sentences: SourceSentence[]): number {
+  const unique = Array.from(new Set(terms));
+  if (unique.length === 0) {
+    return 1;
+  }
+
+  const found = unique.filter(term => sentences.some(sentence => sentence.vector.has(term)));
+  return found.length / unique.length;
+}
+
+/**
+ * Split a summary into sentences, remembering the line each is on so
+ * bullets and Q&A pairs can be laid out again
+ */
+function splitSummary(summary: string): Array<{ text: string; line: number }> {
+  const sentences: Array<{ text: string; line: number }> = [];
+
+  summary.split('\n').forEach((lineText, line) => {
+    const marker = lineText.match(LINE_MARKER)?.[0] ?? '';
+    const body = lineText.slice(marker.length);
+
+    const parts = splitSentences(body, { keepTerminators: true });
+    parts.forEach((part, index) => {
+      sentences.push({ text: index === 0 ? `${marker.trim()} ${part}`.trim() : part, line });
+    });
+  });
+
+  return sentences;
+}
+
+/**
+ * Numbers in a canonical form: Eastern Arabic digits as ASCII, no grouping
+ * separators, no trailing decimal zeros
+ */
+function extractNumbers(text: string): string[] {
+  const ascii = text
+    .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0));
+
+  return (ascii.match(/\d[\d,]*(?:\.\d+)?/g) || []).map(number => {
+    const plain = number.replace(/,(?=\d{3}\b)/g, '').replace(/,$/, '');
+    return plain.includes('.') ? plain.replace(/\.?0+$/, '') : plain;
+  });
+}
+
+/**
+ * Proper names in Latin script: runs of capitalized words, except a lone
+ * capitalized word at the start of the sentence or after a label
+ */
+function extractNames(claim: string): string[] {
+  const names: string[] = [];
+  const text = claim.replace(LABEL_PREFIX, '');
+
+  for (const match of text.matchAll(/\p{Lu}[\p{L}\p{M}'\u2019-]*(?:\s+(?:of\s+|de\s+|van\s+)?\p{Lu}[\p{L}\p{M}'\u2019-]*)*/gu)) {
+    const name = match[0].replace(/['\u2019]s$/, '');
+    const atStart = text.slice(0, match.index).trim() === '';
+    if (atStart && !/\s/.test(name)) continue;
+    if (name.length < 2 || (/^[\p{Lu}\s]+$/u.test(name) && name.length <= 4)) continue;
+
+    // A sentence-initial word ahead of a name ("Analysts Goldman Sachs") is not part of it
+    names.push(atStart && contentTerms(name.split(/\s+/)[0]).length === 0 ? name.split(/\s+/).slice(1).join(' ') : name);
+  }
+
+  return names.filter(Boolean);
+}
+
+/**
+ * Whether the source mentions a name: the whole run, or at least one of its
+ * words, since runs pick up titles and Title Case ("CEO Tim Cook") that the
+ * source words differently
+ */
+function mentionsName(name: string, normalizedContent: string, sourceTerms: Set<string>): boolean {
+  return normalizedContent.includes(name.toLowerCase()) || contentTerms(name).some(term => sourceTerms.has(term));
+}
+
+/**
+ * Weighted term vector
+ */
+function toVector(terms: string[], weight: (term: string) => number): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const term of terms) {
+    vector.set(term, (vector.get(term) || 0) + weight(term));
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity of two term vectors
+ */
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) || 0);
+    normA += weight * weight;
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+
+  return dot === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,162 @@
+/**
+ * Keyword and key-phrase extraction: RAKE-style candidate phrases (content
+ * words between stop words and punctuation), weighted by TF-IDF against the
+ * document frequencies of every stored article
+ */
+
+import { contentTerms, stopWordsFor, toTerm } from './stop-words';
+
+export interface Keyword {
+  phrase: string; // As written in the article
+  terms: string[]; // Comparison forms of its words
+  score: number;
+  occurrences: number;
+}
+
+export interface CorpusFrequencies {
+  documentCount: number; // Articles in the corpus
+  frequencies: Record<string, number>; // Articles each term appears in
+}
+
+export interface KeywordOptions {
+  language?: string; // ISO 639-1 code, for stop words
+  corpus?: CorpusFrequencies; // Without it, terms are weighted by this article alone
+  limit?: number; // Default 10
+}
+
+// Longer runs of content words are rarely phrases
+const MAX_PHRASE_WORDS = 3;
+
+interface Candidate {
+  terms: string[];
+  surfaces: Map<string, number>; // Spellings seen, with counts
+  occurrences: number;
+  firstSeen: number;
+}
+
+/**
+ * Unique terms of a text, as counted in the document-frequency table
+ */
+export function keywordTerms(text: string, language?: string): string[] {
+  return Array.from(new Set(contentTerms(text, language)));
+}
+
+/**
+ * The phrases most distinctive for this text: their words are frequent here
+ * and rare in the rest of the corpus, and the phrase itself recurs
+ */
+export function extractKeywords(text: string, options: KeywordOptions = {}): Keyword[] {
+  const candidates = collectCandidates(text, options.language);
+  const termCounts = countTerms(text, options.language);
+  const idf = inverseDocumentFrequency(options.corpus);
+
+  // A run of words seen once is a fragment of a sentence, not a phrase
+  const ranked = Array.from(candidates.values())
+    .filter(candidate => candidate.terms.length === 1 || candidate.occurrences > 1)
+    .map(candidate => {
+      const tfidf = candidate.terms.reduce((sum, term) => sum + (termCounts.get(term) || 0) * idf(term), 0);
+      return {
+        candidate,
+        // Dividing by the square root still favours phrases over their words alone
+        score: (tfidf / Math.sqrt(candidate.terms.length)) * (1 + Math.log(candidate.occurrences)),
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.candidate.firstSeen - b.candidate.firstSeen);
+
+  // Skip phrases whose words are all inside a better-ranked phrase
+  const keywords: Keyword[] = [];
+  for (const { candidate, score } of ranked) {
+    if (keywords.length >= (options.limit ?? 10)) break;
+    if (keywords.some(keyword => candidate.terms.every(term => keyword.terms.includes(term)))) continue;
+
+    keywords.push({
+      phrase: mostCommonSpelling(candidate.surfaces),
+      terms: candidate.terms,
+      score: Number(score.toFixed(3)),
+      occurrences: candidate.occurrences,
+    });
+  }
+
+  return keywords;
+}
+
+/**
+ * Split the text into runs of content words at stop words, punctuation and
+ * numbers, and take every phrase of up to MAX_PHRASE_WORDS words inside a
+ * run as a candidate, grouping repeats by their terms
+ */
+function collectCandidates(text: string, language?: string): Map<string, Candidate> {
+  const stopWords = stopWordsFor(language);
+  const candidates = new Map<string, Candidate>();
+  const tokens = text.normalize('NFC').match(/[\p{L}\p{M}\p{N}]+|[^\p{L}\p{M}\p{N}\s]+/gu) || [];
+
+  let words: string[] = [];
+  let position = 0;
+
+  const flush = () => {
+    for (let start = 0; start < words.length; start++) {
+      for (let end = start + 1; end <= Math.min(words.length, start + MAX_PHRASE_WORDS); end++) {
+        const phrase = words.slice(start, end);
+        const terms = phrase.map(word => toTerm(word.toLowerCase()));
+        const key = terms.join(' ');
+        const surface = phrase.join(' ');
+        const candidate = candidates.get(key) ?? { terms, surfaces: new Map(), occurrences: 0, firstSeen: position };
+        candidate.surfaces.set(surface, (candidate.surfaces.get(surface) || 0) + 1);
+        candidate.occurrences++;
+        candidates.set(key, candidate);
+      }
+    }
+    words = [];
+  };
+
+  for (const token of tokens) {
+    position++;
+    const lower = token.toLowerCase();
+    const isWord = /\p{L}/u.test(token) && lower.length > 1 && !stopWords.has(lower);
+    if (isWord) {
+      words.push(token);
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return candidates;
+}
+
+/**
+ * Occurrences of each term in the text
+ */
+function countTerms(text: string, language?: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of contentTerms(text, language)) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Smoothed IDF against the corpus; every term weighs 1 without one
+ */
+function inverseDocumentFrequency(corpus?: CorpusFrequencies): (term: string) => number {
+  if (!corpus || corpus.documentCount === 0) {
+    return () => 1;
+  }
+
+  return term => Math.log((corpus.documentCount + 1) / ((corpus.frequencies[term] || 0) + 1)) + 1;
+}
+
+/**
+ * The spelling used most often, the earliest one on ties
+ */
+function mostCommonSpelling(surfaces: Map<string, number>): string {
+  let best = '';
+  let bestCount = 0;
+  for (const [surface, count] of surfaces) {
+    if (count > bestCount) {
+      best = surface;
+      bestCount = count;
+    }
+  }
+  return best;
+}
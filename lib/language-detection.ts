@@ -0,0 +1,202 @@
+/**
+ * Local language identification: the writing script narrows the candidates,
+ * then common-word profiles pick between languages that share a script
+ */
+
+import { detectScript, type WritingScript } from './text-utils';
+
+export interface LanguageDetection {
+  language: string; // ISO 639-1 code, 'und' when undetermined
+  name: string; // English name, as used in prompts
+  script: WritingScript;
+  confidence: number; // 0-1
+  method: 'script' | 'common-words' | 'letters' | 'none';
+}
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', ur: 'Urdu', ar: 'Arabic', fa: 'Persian', hi: 'Hindi', bn: 'Bengali',
+  pa: 'Punjabi', es: 'Spanish', fr: 'French', de: 'German', pt: 'Portuguese',
+  it: 'Italian', nl: 'Dutch', tr: 'Turkish', id: 'Indonesian', ru: 'Russian',
+  uk: 'Ukrainian', el: 'Greek', he: 'Hebrew', zh: 'Chinese', ja: 'Japanese',
+  ko: 'Korean', th: 'Thai', und: 'Unknown',
+};
+
+// Scripts used by a single language we support
+const SINGLE_LANGUAGE_SCRIPTS: Partial<Record<WritingScript, string>> = {
+  devanagari: 'hi',
+  bengali: 'bn',
+  gurmukhi: 'pa',
+  greek: 'el',
+  hebrew: 'he',
+  hangul: 'ko',
+  thai: 'th',
+  kana: 'ja',
+};
+
+// The most frequent function words of each language. Urdu, Persian and
+// Arabic spellings differ in their yeh, kaf and heh letters, so the lists
+// do not overlap even though the words sound alike.
+const COMMON_WORDS: Partial<Record<WritingScript, Record<string, string[]>>> = {
+  arabic: {
+    ur: ['ہے', 'ہیں', 'کے', 'کی', 'کا', 'میں', 'اور', 'سے', 'کو', 'نے', 'یہ', 'وہ', 'تھا', 'تھی', 'تھے', 'پر', 'بھی', 'ایک', 'کہ', 'لیے', 'نہیں', 'ہو', 'کر', 'گیا', 'اس', 'جو'],
+    fa: ['و', 'در', 'به', 'از', 'که', 'را', 'این', 'با', 'است', 'برای', 'آن', 'یک', 'هم', 'تا', 'بود', 'شد', 'می', 'خود', 'نیز', 'اما', 'شده', 'کرد', 'هر', 'ما'],
+    ar: ['في', 'من', 'على', 'إلى', 'أن', 'التي', 'الذي', 'عن', 'هذا', 'هذه', 'مع', 'كان', 'لا', 'ما', 'و', 'هو', 'ذلك', 'بين', 'كما', 'قد', 'إن', 'لم', 'بعد', 'عام'],
+  },
+  latin: {
+    en: ['the', 'and', 'of', 'to', 'is', 'that', 'for', 'it', 'with', 'as', 'was', 'on', 'are', 'be', 'this', 'by', 'at', 'from', 'have', 'or', 'not', 'but', 'which', 'you', 'they', 'has', 'were', 'their', 'will', 'can'],
+    es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'del', 'se', 'las', 'por', 'un', 'una', 'para', 'con', 'no', 'es', 'al', 'lo', 'como', 'más', 'pero', 'sus', 'este', 'esta', 'son'],
+    fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'en', 'un', 'une', 'du', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'avec', 'ce', 'il', 'sont', 'par', 'plus', 'ne', 'nous', 'vous'],
+    de: ['der', 'die', 'und', 'den', 'von', 'zu', 'das', 'mit', 'sich', 'des', 'auf', 'für', 'ist', 'im', 'dem', 'nicht', 'ein', 'eine', 'als', 'auch', 'es', 'werden', 'aus', 'hat', 'dass', 'sie', 'nach', 'wird', 'bei'],
+    pt: ['de', 'o', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'é', 'com', 'não', 'uma', 'os', 'no', 'na', 'por', 'mais', 'dos', 'como', 'mas', 'ao', 'ele', 'das', 'à', 'seu', 'sua', 'ou', 'são'],
+    it: ['di', 'e', 'il', 'la', 'che', 'è', 'per', 'un', 'del', 'non', 'una', 'della', 'sono', 'le', 'si', 'con', 'dei', 'da', 'nel', 'alla', 'gli', 'anche', 'come', 'più', 'ma', 'questo'],
+    nl: ['de', 'het', 'een', 'en', 'van', 'ik', 'te', 'dat', 'die', 'is', 'niet', 'op', 'zijn', 'met', 'voor', 'hij', 'er', 'maar', 'ook', 'als', 'aan', 'wordt', 'bij', 'uit'],
+    tr: ['bir', 've', 'bu', 'da', 'için', 'ile', 'çok', 'olan', 'gibi', 'daha', 'ama', 'değil', 'kadar', 'olarak', 'sonra', 'her', 'ise', 'veya', 'göre', 'önce'],
+    id: ['yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'dari', 'dalam', 'akan', 'pada', 'juga', 'ada', 'ke', 'karena', 'adalah', 'bisa', 'kami', 'mereka'],
+    // Roman Urdu, as written in blogs and social media
+    ur: ['hai', 'hain', 'ke', 'ki', 'ka', 'mein', 'aur', 'se', 'ko', 'ne', 'yeh', 'ye', 'woh', 'nahi', 'nahin', 'bhi', 'tha', 'thi', 'kya', 'liye', 'kar', 'gaya', 'raha', 'rahe'],
+  },
+  cyrillic: {
+    ru: ['и', 'в', 'не', 'на', 'что', 'с', 'по', 'это', 'как', 'он', 'к', 'но', 'из', 'у', 'же', 'от', 'для', 'так', 'все', 'был', 'она', 'или', 'его', 'только'],
+    uk: ['і', 'в', 'не', 'на', 'що', 'з', 'до', 'це', 'як', 'він', 'та', 'але', 'від', 'для', 'так', 'було', 'вона', 'або', 'його', 'також', 'ще', 'які', 'є'],
+  },
+};
+
+// Letters that only one language of a shared script uses, for texts too
+// short to contain any common words
+const DISTINCTIVE_LETTERS: Partial<Record<WritingScript, Array<[RegExp, string]>>> = {
+  arabic: [
+    [/[ٹڈڑںھہےۓ]/g, 'ur'], // ٹ ڈ ڑ ں ھ ہ ے ۓ
+    [/[ةىيك]/g, 'ar'], // ة ى ي ك
+    [/[ژه]/g, 'fa'], // ژ ه (Urdu writes ہ)
+  ],
+  cyrillic: [
+    [/[іїєґ]/g, 'uk'], // і ї є ґ
+    [/[ыэёъ]/g, 'ru'], // ы э ё ъ
+  ],
+};
+
+// Enough text to profile; long articles add nothing but time
+const SAMPLE_LENGTH = 20000;
+// Fewer common words than this and the letters decide instead
+const MIN_WORD_HITS = 3;
+
+const WORD_SETS = buildWordSets();
+
+/**
+ * Identify the language of a text without calling any external service
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const sample = (text || '').slice(0, SAMPLE_LENGTH).normalize('NFC');
+  const { script, confidence: scriptConfidence, breakdown } = detectScript(sample);
+
+  if (script === 'unknown') {
+    return result('und', script, 0, 'none');
+  }
+
+  // Japanese mixes kanji with kana; kanji alone is Chinese
+  if (script === 'han') {
+    return (breakdown.kana || 0) > 0.05
+      ? result('ja', script, scriptConfidence, 'script')
+      : result('zh', script, scriptConfidence, 'script');
+  }
+
+  const singleLanguage = SINGLE_LANGUAGE_SCRIPTS[script];
+  if (singleLanguage) {
+    return result(singleLanguage, script, scriptConfidence, 'script');
+  }
+
+  const wordSets = WORD_SETS[script];
+  if (!wordSets) {
+    return result('und', script, 0, 'none');
+  }
+
+  const hits = countCommonWords(sample, wordSets);
+  const ranked = Object.entries(hits).sort((a, b) => b[1] - a[1]);
+  const [best, second] = ranked;
+
+  if (best && best[1] >= MIN_WORD_HITS) {
+    // A clear winner is confident; near-ties between related languages are not
+    const margin = best[1] / (best[1] + (second?.[1] || 0));
+    return result(best[0], script, Number((margin * scriptConfidence).toFixed(3)), 'common-words');
+  }
+
+  const letters = countDistinctiveLetters(sample, script);
+  if (letters) {
+    return result(letters, script, Number((0.5 * scriptConfidence).toFixed(3)), 'letters');
+  }
+
+  return result('und', script, 0, 'none');
+}
+
+/**
+ * English name of a language code, for prompts and logs
+ */
+export function languageName(code: string | undefined): string {
+  return LANGUAGE_NAMES[code || 'und'] || code || LANGUAGE_NAMES.und;
+}
+
+/**
+ * Count occurrences of each language's common words
+ */
+function countCommonWords(text: string, wordSets: Record<string, Set<string>>): Record<string, number> {
+  const hits: Record<string, number> = {};
+  for (const language of Object.keys(wordSets)) {
+    hits[language] = 0;
+  }
+
+  // Keep combining marks and ZWNJ inside words (Persian "می‌شود")
+  const words = text.toLowerCase().match(/[\p{L}\p{M}\u200C]+/gu) || [];
+  for (const word of words) {
+    for (const [language, set] of Object.entries(wordSets)) {
+      if (set.has(word)) hits[language]++;
+    }
+  }
+
+  return hits;
+}
+
+/**
+ * Pick the language whose distinctive letters appear most often
+ */
+function countDistinctiveLetters(text: string, script: WritingScript): string | null {
+  let bestLanguage: string | null = null;
+  let bestCount = 0;
+
+  for (const [pattern, language] of DISTINCTIVE_LETTERS[script] || []) {
+    const count = (text.match(pattern) || []).length;
+    if (count > bestCount) {
+      bestLanguage = language;
+      bestCount = count;
+    }
+  }
+
+  return bestLanguage;
+}
+
+/**
+ * Build lookup sets from the common-word lists
+ */
+function buildWordSets(): Partial<Record<WritingScript, Record<string, Set<string>>>> {
+  const sets: Partial<Record<WritingScript, Record<string, Set<string>>>> = {};
+
+  for (const [script, languages] of Object.entries(COMMON_WORDS) as Array<[WritingScript, Record<string, string[]>]>) {
+    sets[script] = {};
+    for (const [language, words] of Object.entries(languages)) {
+      sets[script]![language] = new Set(words.map(word => word.normalize('NFC')));
+    }
+  }
+
+  return sets;
+}
+
+/**
+ * Assemble a detection result
+ */
+function result(
+  language: string,
+  script: WritingScript,
+  confidence: number,
+  method: LanguageDetection['method']
+): LanguageDetection {
+  return { language, name: languageName(language), script, confidence, method };
+}
@@ -0,0 +1,154 @@
+import type { BlockKind } from './scrape-errors';
+
+export type BarrierKind = Exclude<BlockKind, 'access-denied' | 'rate-limited'> | 'paywall';
+
+export interface PageBarrier {
+  kind: BarrierKind;
+  signal: string; // What gave it away, for logs and error details
+}
+
+// Interstitials carry little text of their own; real articles with a
+// cookie banner or a subscribe box are longer than this
+const INTERSTITIAL_MAX_WORDS = 200;
+// Paywall teasers show the first few paragraphs
+const TEASER_MAX_WORDS = 400;
+// Below this the page has no text of its own
+const EMPTY_PAGE_MAX_WORDS = 50;
+
+const CHALLENGE_MARKERS: Array<[RegExp, string]> = [
+  [/<title>\s*(Just a moment\.\.\.|Attention Required! \| Cloudflare)\s*<\/title>/i, 'Cloudflare challenge page'],
+  [/\bcf_chl_opt\b|id=["']challenge-form["']|\bcf-browser-verification\b/i, 'Cloudflare challenge script'],
+  [/captcha-delivery\.com|\bdatadome\b/i, 'DataDome captcha'],
+  [/\bpx-captcha\b|_pxCaptcha/i, 'PerimeterX captcha'],
+  [/_Incapsula_Resource|Incapsula incident ID/i, 'Imperva/Incapsula challenge'],
+  [/\b(verify (that )?you are (a )?human|are you a robot|checking (if the site connection is secure|your browser before accessing))\b/i, 'human verification prompt'],
+];
+
+// Consent wording counts only when it is what the extractor took for the article
+const CONSENT_TEXT_MARKERS: Array<[RegExp, string]> = [
+  [/\b(before you continue to|we value your privacy|your privacy choices)\b/i, 'consent prompt'],
+  [/\b(accept all|agree and (continue|proceed)|reject all)\b[\s\S]{0,400}\b(cookies?|partners|personal data)\b/i, 'cookie choice buttons'],
+  [/\b(cookies?|partners|personal data)\b[\s\S]{0,400}\b(accept all|agree and (continue|proceed)|reject all)\b/i, 'cookie choice buttons'],
+];
+
+// Consent platform markup is on most pages; only a page with no text of its own is the wall
+const CONSENT_MARKUP_MARKERS: Array<[RegExp, string]> = [
+  [/consent\.(google|yahoo)\.com|\/guce\/|\bqc-cmp2\b|\bsp_message_container\b|\bonetrust-consent-sdk\b/i, 'consent management platform'],
+];
+
+// Structured data saying the article is gated is trusted wherever it is
+const PAYWALL_DATA_MARKERS: Array<[RegExp, string]> = [
+  [/"isAccessibleForFree"\s*:\s*"?false"?/i, 'isAccessibleForFree: false'],
+];
+
+// Subscribe prompts and paywall markup also sit in the navigation and scripts
+// of every page, so they only count right where the article text stops
+const PAYWALL_MARKERS: Array<[RegExp, string]> = [
+  [/\b(subscribe|sign up|log in|register) to (continue|keep) reading\b/i, '"subscribe to continue reading"'],
+  [/\b(this (article|story|content) is (only )?(available )?(exclusively )?for (paid )?subscribers|subscribers only)\b/i, '"for subscribers"'],
+  [/\balready a subscriber\?/i, '"already a subscriber?"'],
+  [/\byou('ve| have) (reached|used) (your|all of your) (free )?(article|story) limit\b/i, 'metered article limit'],
+  [/class=["'][^"']*\b(paywall|piano-offer|tp-modal|regwall|meteredContent|subscriber-only)\b/i, 'paywall markup'],
+];
+
+// How much of the page after the last words of the article counts as the
+// truncation point, in characters of HTML
+const TRUNCATION_WINDOW = 4000;
+// Words at the end of the article used to find where it stops in the page
+const TAIL_WORDS = 6;
+
+/**
+ * Look for a bot challenge, cookie consent interstitial or paywall teaser
+ * standing in for the article. Markers only count when little article text
+ * came through, so ordinary pages with cookie banners are not flagged.
+ */
+export function detectPageBarrier(rawHtml: string, content: string, finalUrl: string): PageBarrier | null {
+  const words = content.split(/\s+/).filter(Boolean).length;
+
+  // Some publishers redirect every first visit to a consent host
+  if (/^https?:\/\/(consent\.|[^/?#]+\/(guce|consent|privacy-gate)([/?#]|$))/i.test(finalUrl)) {
+    return { kind: 'consent-wall', signal: `redirected to ${new URL(finalUrl).host}` };
+  }
+
+  if (words < INTERSTITIAL_MAX_WORDS) {
+    const challenge = firstMatch(CHALLENGE_MARKERS, rawHtml);
+    if (challenge) {
+      return { kind: 'bot-challenge', signal: challenge };
+    }
+
+    const consent = firstMatch(CONSENT_TEXT_MARKERS, content) ||
+                    (words < EMPTY_PAGE_MAX_WORDS ? firstMatch(CONSENT_MARKUP_MARKERS, rawHtml) : null);
+    if (consent) {
+      return { kind: 'consent-wall', signal: consent };
+    }
+  }
+
+  if (words < TEASER_MAX_WORDS) {
+    const truncation = truncationWindow(rawHtml, content);
+    const paywall = firstMatch(PAYWALL_DATA_MARKERS, rawHtml) ||
+                    (truncation ? firstMatch(PAYWALL_MARKERS, truncation) : null);
+    if (paywall) {
+      return { kind: 'paywall', signal: paywall };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Recognise bot protection from the headers of an error response, whose
+ * body we never read
+ */
+export function detectBlockedResponse(status: number, headers: Record<string, string>): { kind: BlockKind; signal: string } | null {
+  if (headers['cf-mitigated'] === 'challenge') {
+    return { kind: 'bot-challenge', signal: 'Cloudflare challenge (cf-mitigated)' };
+  }
+  if (headers['x-datadome'] || /datadome/i.test(headers['set-cookie'] || '')) {
+    return { kind: 'bot-challenge', signal: 'DataDome' };
+  }
+  if (status === 429) {
+    return { kind: 'rate-limited', signal: headers['retry-after'] ? `HTTP 429, retry after ${headers['retry-after']}` : 'HTTP 429' };
+  }
+  if (status === 403 && /cloudflare|akamai|incapsula|sucuri/i.test(`${headers['server'] || ''} ${headers['x-cdn'] || ''}`)) {
+    return { kind: 'access-denied', signal: `HTTP 403 from ${headers['server'] || headers['x-cdn']}` };
+  }
+  return null;
+}
+
+/**
+ * The HTML from the last words of the extracted article onwards, without
+ * scripts or site chrome; null when the article's end cannot be found in
+ * the page
+ */
+function truncationWindow(rawHtml: string, content: string): string | null {
+  const tail = (content.match(/[\p{L}\p{N}]+/gu) || []).slice(-TAIL_WORDS);
+  if (tail.length === 0) {
+    return null;
+  }
+
+  // Between the words there may be tags, entities and punctuation
+  const pattern = new RegExp(tail.join('(?:&#?\\w+;|<[^>]*>|[^\\p{L}\\p{N}<])+'), 'gu');
+  let start = -1;
+  for (const match of rawHtml.matchAll(pattern)) {
+    start = match.index!;
+  }
+  if (start < 0) {
+    return null;
+  }
+
+  return rawHtml
+    .slice(start, start + TRUNCATION_WINDOW)
+    .replace(/<(script|style|template|nav|header|footer|aside)\b[\s\S]*?(<\/\1\s*>|$)/gi, ' ');
+}
+
+/**
+ * Label of the first marker found in the text
+ */
+function firstMatch(markers: Array<[RegExp, string]>, text: string): string | null {
+  for (const [pattern, label] of markers) {
+    if (pattern.test(text)) {
+      return label;
+    }
+  }
+  return null;
+}
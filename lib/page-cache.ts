@@ -0,0 +1,300 @@
+import { createHash } from 'crypto';
+import type { Binary, Collection } from 'mongodb';
+import type { PageFetcher } from './fetchers';
+import type { SafeFetchOptions, SafeFetchResponse, CacheInfo } from './safe-http';
+import type { DatabaseResult } from './database';
+
+// Cached response for one URL
+export interface PageCacheEntry {
+  url: string;
+  finalUrl: string;
+  status: number;
+  headers: Record<string, string>;
+  contentType: string;
+  body: Buffer | Binary;
+  bodyHash: string;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: Date; // Last time the body was downloaded
+  validatedAt: Date; // Last time the server confirmed it (200 or 304)
+  expiresAt: Date;
+}
+
+export interface PageCacheConfig {
+  enabled: boolean;
+  ttlMs: number; // Entries older than this are refetched unconditionally
+  maxEntries: number;
+  maxEntryBytes: number; // Larger responses are never cached
+}
+
+export interface PageCacheStats {
+  entries: number;
+  totalBytes: number;
+  oldestFetchedAt?: Date;
+}
+
+export class PageCacheService {
+  private readonly mongoDbName = 'blog_summarizer';
+  private readonly cacheCollection = 'page_cache';
+  private indexesReady: Promise<void> | null = null;
+
+  readonly config: PageCacheConfig;
+
+  constructor(config: Partial<PageCacheConfig> = {}) {
+    this.config = {
+      enabled: process.env.SCRAPER_CACHE !== 'off',
+      ttlMs: Number(process.env.SCRAPER_CACHE_TTL_SECONDS || 24 * 60 * 60) * 1000,
+      maxEntries: Number(process.env.SCRAPER_CACHE_MAX_ENTRIES || 1000),
+      maxEntryBytes: Number(process.env.SCRAPER_CACHE_MAX_ENTRY_BYTES || 2 * 1024 * 1024),
+      ...config,
+    };
+  }
+
+  /**
+   * Get a live (non-expired) cache entry for a URL
+   */
+  async get(url: string): Promise<PageCacheEntry | null> {
+    const collection = await this.getCollection();
+    return collection.findOne({ url, expiresAt: { $gt: new Date() } });
+  }
+
+  /**
+   * Store a freshly downloaded response, evicting the oldest entries beyond the size limit
+   */
+  async put(url: string, response: SafeFetchResponse, bodyHash: string): Promise<void> {
+    if (response.body.length > this.config.maxEntryBytes || isUncacheable(response.headers)) {
+      await this.purge(url);
+      return;
+    }
+
+    const collection = await this.getCollection();
+    const now = new Date();
+
+    await collection.replaceOne(
+      { url },
+      {
+        url,
+        finalUrl: response.url,
+        status: response.status,
+        headers: response.headers,
+        contentType: response.contentType,
+        body: response.body,
+        bodyHash,
+        size: response.body.length,
+        etag: response.headers['etag'],
+        lastModified: response.headers['last-modified'],
+        fetchedAt: now,
+        validatedAt: now,
+        expiresAt: new Date(now.getTime() + this.config.ttlMs),
+      },
+      { upsert: true }
+    );
+
+    await this.evictOverflow(collection);
+  }
+
+  /**
+   * Record that the server confirmed a cached entry is still current
+   */
+  async touch(url: string): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne({ url }, { $set: { validatedAt: new Date() } });
+  }
+
+  /**
+   * Remove one URL, or every entry when no URL is given
+   */
+  async purge(url?: string): Promise<DatabaseResult<number>> {
+    try {
+      const collection = await this.getCollection();
+      const result = url ? await collection.deleteMany({ url }) : await collection.deleteMany({});
+
+      return {
+        success: true,
+        data: result.deletedCount,
+      };
+    } catch (error) {
+      console.error('Page cache purge error:', error);
+      return {
+        success: false,
+        error: `Failed to purge page cache: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Entry count and total body size
+   */
+  async getStats(): Promise<DatabaseResult<PageCacheStats>> {
+    try {
+      const collection = await this.getCollection();
+      const [stats] = await collection
+        .aggregate<{ entries: number; totalBytes: number; oldestFetchedAt?: Date }>([
+          { $group: { _id: null, entries: { $sum: 1 }, totalBytes: { $sum: '$size' }, oldestFetchedAt: { $min: '$fetchedAt' } } },
+          { $project: { _id: 0 } },
+        ])
+        .toArray();
+
+      return {
+        success: true,
+        data: stats ?? { entries: 0, totalBytes: 0 },
+      };
+    } catch (error) {
+      console.error('Page cache stats error:', error);
+      return {
+        success: false,
+        error: `Failed to get page cache statistics: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Drop the least recently validated entries beyond maxEntries
+   */
+  private async evictOverflow(collection: Collection<PageCacheEntry>): Promise<void> {
+    const overflow = (await collection.countDocuments()) - this.config.maxEntries;
+    if (overflow <= 0) return;
+
+    const stale = await collection
+      .find({}, { projection: { _id: 1 } })
+      .sort({ validatedAt: 1 })
+      .limit(overflow)
+      .toArray();
+
+    await collection.deleteMany({ _id: { $in: stale.map(entry => entry._id) } });
+  }
+
+  /**
+   * Get the cache collection. MongoDB is loaded lazily so the scraper keeps
+   * working (uncached) where no database is configured, e.g. fixture replays.
+   */
+  private async getCollection(): Promise<Collection<PageCacheEntry>> {
+    const { default: clientPromise } = await import('./mongodb');
+    const client = await clientPromise;
+    const collection = client.db(this.mongoDbName).collection<PageCacheEntry>(this.cacheCollection);
+
+    if (!this.indexesReady) {
+      this.indexesReady = Promise.all([
+        collection.createIndex({ url: 1 }, { unique: true, name: 'page_cache_url' }),
+        // Let MongoDB delete expired entries on its own
+        collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0, name: 'page_cache_expiry' }),
+        collection.createIndex({ validatedAt: 1 }, { name: 'page_cache_validated' }),
+      ])
+        .then(() => undefined)
+        .catch(error => console.warn('Failed to create page cache indexes:', error));
+    }
+    await this.indexesReady;
+
+    return collection;
+  }
+
+  /**
+   * Extract error message from unknown error type
+   */
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    return String(error);
+  }
+}
+
+/**
+ * Fetcher decorator that revalidates cached pages with If-None-Match /
+ * If-Modified-Since and serves the cached body on 304 Not Modified
+ */
+export class CachingFetcher implements PageFetcher {
+  constructor(
+    private readonly inner: PageFetcher,
+    private readonly cache: PageCacheService = pageCacheService
+  ) {}
+
+  /**
+   * Fetch a page, using and refreshing the cache
+   */
+  async fetch(url: string, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+    if (!this.cache.config.enabled) {
+      return this.inner.fetch(url, options);
+    }
+
+    const cached = await this.cache.get(url).catch(error => {
+      console.warn('Page cache unavailable, fetching without it:', this.describe(error));
+      return null;
+    });
+
+    const conditionalHeaders: Record<string, string> = {};
+    if (cached?.etag) conditionalHeaders['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) conditionalHeaders['If-Modified-Since'] = cached.lastModified;
+
+    const response = await this.inner.fetch(url, {
+      ...options,
+      headers: { ...options.headers, ...conditionalHeaders },
+    });
+
+    if (response.status === 304 && cached) {
+      await this.cache.touch(url).catch(() => undefined);
+      return {
+        url: cached.finalUrl,
+        status: cached.status,
+        headers: cached.headers,
+        contentType: cached.contentType,
+        body: toBuffer(cached.body),
+        cache: this.cacheInfo('revalidated', false, cached),
+      };
+    }
+
+    const bodyHash = hashBody(response.body);
+    await this.cache.put(url, response, bodyHash).catch(error => {
+      console.warn('Failed to update page cache:', this.describe(error));
+    });
+
+    return {
+      ...response,
+      cache: cached
+        ? this.cacheInfo('updated', cached.bodyHash !== bodyHash, cached)
+        : this.cacheInfo('miss', true),
+    };
+  }
+
+  /**
+   * Build the cache report attached to responses
+   */
+  private cacheInfo(status: CacheInfo['status'], changed: boolean, previous?: PageCacheEntry): CacheInfo {
+    return {
+      status,
+      changed,
+      previousFetchedAt: previous?.fetchedAt,
+    };
+  }
+
+  /**
+   * Short description of a cache error for logs
+   */
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * True when the server forbids storing the response
+ */
+function isUncacheable(headers: Record<string, string>): boolean {
+  return /no-store|private/i.test(headers['cache-control'] || '');
+}
+
+/**
+ * Content hash used to tell whether a page changed between scrapes
+ */
+function hashBody(body: Buffer): string {
+  return createHash('sha1').update(body).digest('hex');
+}
+
+/**
+ * MongoDB returns stored Buffers as BSON Binary
+ */
+function toBuffer(body: Buffer | Binary): Buffer {
+  return Buffer.isBuffer(body) ? body : Buffer.from(body.buffer);
+}
+
+export const pageCacheService = new PageCacheService();
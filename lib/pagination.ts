@@ -0,0 +1,171 @@
+import * as cheerio from 'cheerio';
+
+// Query parameters commonly used for article page numbers. WordPress' "p"
+// is deliberately absent: it holds a post ID, not a page number.
+const PAGE_PARAMS = ['page', 'pg', 'paged', 'pagenum', 'pageno', 'pagina', 'seite'];
+
+// Containers that hold article pagination links
+const PAGINATION_CONTAINERS = [
+  '.pagination',
+  '.pager',
+  '.page-links',
+  '.post-page-numbers',
+  '.article-pagination',
+  '.paging',
+  '.pages',
+  'nav[aria-label*="pagination" i]',
+  '[class*="pagination"]',
+].join(', ');
+
+const NEXT_LINK_SELECTORS = [
+  'link[rel="next"]',
+  'a[rel~="next"]',
+  'a.next',
+  'a.next-page',
+  'a.page-numbers.next',
+  '.next a',
+  '.next-page a',
+];
+
+const NEXT_TEXT = /^(next( page)?|continue( reading)?|›|»|→|>|more|page\s*\d+|\d+)\s*[›»→>]?$/i;
+
+/**
+ * Find the URL of the next page of a multi-page article, or null if there
+ * is none or the candidate does not look like a continuation of the article
+ */
+export function findNextPageUrl($: cheerio.CheerioAPI, currentUrl: string, firstUrl: string): string | null {
+  const currentPage = getPageNumber(currentUrl, firstUrl);
+  if (currentPage === null) {
+    return null;
+  }
+
+  // Candidates in priority order; each must still resolve to page currentPage + 1
+  const candidates: string[] = [];
+  for (const selector of NEXT_LINK_SELECTORS) {
+    $(selector).each((_, element) => {
+      const href = $(element).attr('href');
+      if (href) candidates.push(href);
+    });
+  }
+
+  // "Next", "›" and numbered links inside pagination blocks
+  $(PAGINATION_CONTAINERS).find('a[href]').each((_, element) => {
+    const text = $(element).text().trim();
+    if (NEXT_TEXT.test(text)) {
+      candidates.push($(element).attr('href')!);
+    }
+  });
+
+  // Any link on the page that points at the next page number of this article
+  $('a[href]').each((_, element) => {
+    candidates.push($(element).attr('href')!);
+  });
+
+  for (const href of candidates) {
+    const resolved = resolve(href, currentUrl);
+    if (!resolved || resolved === stripHash(currentUrl)) continue;
+
+    const page = getPageNumber(resolved, firstUrl);
+    if (page !== null && page === currentPage + 1) {
+      return resolved;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a page URL for duplicate/loop detection
+ */
+export function normalizePageUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+    parsed.searchParams.sort();
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Page number of a URL relative to the first page of the article:
+ * 1 for the first page itself, N for recognized continuation URLs
+ * (?page=N, /N, /page/N, -page-N suffixes), or null if unrelated
+ */
+function getPageNumber(url: string, firstUrl: string): number | null {
+  let candidate: URL;
+  let first: URL;
+  try {
+    candidate = new URL(url);
+    first = new URL(firstUrl);
+  } catch {
+    return null;
+  }
+
+  if (candidate.origin !== first.origin) {
+    return null;
+  }
+
+  const basePath = first.pathname.replace(/\/+$/, '');
+  const candidatePath = candidate.pathname.replace(/\/+$/, '');
+
+  // Same path, page number in the query string
+  if (candidatePath === basePath) {
+    for (const param of PAGE_PARAMS) {
+      const value = candidate.searchParams.get(param);
+      if (value && /^\d+$/.test(value)) {
+        return Number(value);
+      }
+    }
+
+    return hasOtherQueryChanges(candidate, first) ? null : 1;
+  }
+
+  // Page number in the path: /article/2, /article/page/2, /article-page-2
+  if (candidatePath.startsWith(basePath)) {
+    const suffix = candidatePath.slice(basePath.length);
+    const match = suffix.match(/^(?:\/(?:page\/)?|-page-?)(\d{1,3})$/i);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * True if the query strings differ in anything besides page parameters
+ */
+function hasOtherQueryChanges(candidate: URL, first: URL): boolean {
+  const strip = (url: URL) => {
+    const params = new URLSearchParams(url.search);
+    PAGE_PARAMS.forEach(param => params.delete(param));
+    params.sort();
+    return params.toString();
+  };
+
+  return strip(candidate) !== strip(first);
+}
+
+/**
+ * Resolve an href against the current page, keeping only http(s) URLs
+ */
+function resolve(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Drop the fragment from a URL
+ */
+function stripHash(url: string): string {
+  return url.split('#')[0];
+}
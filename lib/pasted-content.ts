@@ -0,0 +1,272 @@
+import { createHash } from 'crypto';
+import { webScraper, type ScrapedContent } from './scraper';
+import { normalizeUnicodeText, splitSentences } from './text-utils';
+
+export type PastedFormat = 'text' | 'markdown' | 'html';
+
+export interface PastedInput {
+  content: string;
+  format?: PastedFormat | 'auto';
+  title?: string;
+  source?: string; // Free-form label, e.g. "Team wiki" or "Weekly newsletter"
+}
+
+// Longest title derived from the first sentence of untitled text
+const MAX_DERIVED_TITLE = 90;
+
+/**
+ * Turn pasted text, Markdown or HTML into the same shape the scraper
+ * produces for URLs. HTML goes through WebScraper's full extraction.
+ */
+export async function preparePastedContent(input: PastedInput): Promise<ScrapedContent> {
+  const raw = input.content.replace(/\r\n?/g, '\n').trim();
+  if (!raw) {
+    throw new Error('Pasted content is empty');
+  }
+
+  const format = !input.format || input.format === 'auto' ? detectPastedFormat(raw) : input.format;
+  const url = pasteIdentifier(raw);
+  // Relative links in pasted HTML resolve against the source label if it is a URL
+  const baseUrl = isHttpUrl(input.source) ? input.source!.trim() : url;
+
+  let scraped: ScrapedContent;
+  if (format === 'html') {
+    scraped = await webScraper.scrapeHtml(raw, url, undefined, baseUrl);
+  } else {
+    const html = format === 'markdown' ? markdownToHtml(raw) : textToHtml(raw);
+    scraped = webScraper.buildFromArticleHtml(html, url, '', format);
+  }
+
+  const title = normalizeUnicodeText(input.title || '') ||
+                (format === 'html' ? scraped.title : '') ||
+                scraped.document?.sections.find(section => section.heading)?.heading ||
+                deriveTitle(scraped.content);
+
+  return {
+    ...scraped,
+    title,
+    sourceType: format,
+    sourceLabel: normalizeUnicodeText(input.source || '') || undefined,
+  };
+}
+
+/**
+ * Guess whether pasted content is HTML, Markdown or plain text
+ */
+export function detectPastedFormat(content: string): PastedFormat {
+  if (/<(html|body|article|main|div|p|h[1-6]|ul|ol|table|section)\b[^>]*>/i.test(content)) {
+    return 'html';
+  }
+
+  const markdownSignals = [
+    /^#{1,6}\s+\S/m, // Headings
+    /^```/m, // Fenced code
+    /^\s*[-*+]\s+\S/m, // Bullet lists
+    /\[[^\]]+\]\([^)]+\)/, // Links
+    /^\s*\|.+\|\s*$/m, // Tables
+    /(\*\*|__)\S.*?\S\1/, // Bold
+  ];
+
+  return markdownSignals.filter(signal => signal.test(content)).length >= 2 ? 'markdown' : 'text';
+}
+
+/**
+ * Convert Markdown (CommonMark/GFM subset: headings, lists, quotes, fenced
+ * code, tables, emphasis, links) to HTML for the document model
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.split('\n');
+  const html: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    // Fenced code block
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      const language = fence[2] ? ` class="language-${fence[2]}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    // ATX heading
+    const heading = line.match(/^\s*(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    // Table: header row followed by a |---| separator
+    if (/^\s*\|?.+\|/.test(line) && /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(lines[index + 1] || '')) {
+      const headers = splitTableRow(line);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && /\|/.test(lines[index]) && lines[index].trim()) {
+        rows.push(splitTableRow(lines[index]));
+        index++;
+      }
+      html.push(
+        '<table><thead><tr>' +
+        headers.map(cell => `<th>${renderInline(cell)}</th>`).join('') +
+        '</tr></thead><tbody>' +
+        rows.map(row => '<tr>' + row.map(cell => `<td>${renderInline(cell)}</td>`).join('') + '</tr>').join('') +
+        '</tbody></table>'
+      );
+      continue;
+    }
+
+    // Block quote
+    if (/^\s*>/.test(line)) {
+      const quote: string[] = [];
+      while (index < lines.length && /^\s*>/.test(lines[index])) {
+        quote.push(lines[index].replace(/^\s*>\s?/, ''));
+        index++;
+      }
+      html.push(`<blockquote>${markdownToHtml(quote.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    // Lists
+    const listItem = line.match(/^\s*([-*+]|\d+[.)])\s+/);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+        if (item) {
+          items.push(item[2]);
+        } else if (lines[index].trim() && /^\s{2,}/.test(lines[index]) && items.length > 0) {
+          // Continuation line of the previous item
+          items[items.length - 1] += ' ' + lines[index].trim();
+        } else {
+          break;
+        }
+        index++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${items.map(item => `<li>${renderInline(item.replace(/^\[[ xX]\]\s+/, ''))}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    // Horizontal rule or blank line
+    if (!line.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      index++;
+      continue;
+    }
+
+    // Paragraph: consecutive lines up to the next blank line or block start
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !/^\s*(#{1,6}\s|```|~~~|>|([-*+]|\d+[.)])\s)/.test(lines[index])
+    ) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+    html.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+  }
+
+  return html.join('\n');
+}
+
+/**
+ * Convert plain text to HTML paragraphs (blank lines separate paragraphs)
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => `<p>${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+}
+
+/**
+ * Inline Markdown: code spans, links, images (alt text), bold, italics
+ */
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+  const withoutCode = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  return escapeHtml(withoutCode)
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, label: string, href: string) =>
+      /^(https?:|mailto:|\/|#)/i.test(href) ? `<a href="${href}">${label}</a>` : label
+    )
+    .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, '<strong>$2</strong>')
+    .replace(/(^|[^\w*])([*_])(\S(?:.*?\S)?)\2(?![\w*])/g, '$1<em>$3</em>')
+    .replace(/~~(\S(?:.*?\S)?)~~/g, '<del>$1</del>')
+    .replace(/\u0000(\d+)\u0000/g, (_, position: string) => codeSpans[Number(position)]);
+}
+
+/**
+ * Cells of a GFM table row
+ */
+function splitTableRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Title for untitled text: its first sentence, shortened on a word boundary
+ */
+function deriveTitle(content: string): string {
+  const first = splitSentences(content)[0] || content;
+  if (first.length <= MAX_DERIVED_TITLE) {
+    return first.replace(/[.!?۔]+$/, '');
+  }
+
+  const cut = first.slice(0, MAX_DERIVED_TITLE);
+  return cut.slice(0, cut.lastIndexOf(' ') > 40 ? cut.lastIndexOf(' ') : MAX_DERIVED_TITLE) + '…';
+}
+
+/**
+ * Stable identifier for pasted content, so pasting the same text twice is
+ * detected as a duplicate like a repeated URL
+ */
+function pasteIdentifier(content: string): string {
+  const normalized = normalizeUnicodeText(content).toLowerCase();
+  return `paste:${createHash('sha1').update(normalized).digest('hex')}`;
+}
+
+/**
+ * True for absolute http(s) URLs
+ */
+function isHttpUrl(value: string | undefined): boolean {
+  if (!value) return false;
+
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,271 @@
+import { scrapeBlogContent, type ScrapedContent } from './scraper';
+import { generateSummary } from './summarizer';
+import { translateToUrdu } from './translator';
+import { databaseService, type BlogDocument, type DatabaseResult } from './database';
+import { normalizeUrl } from './url-utils';
+import { preparePastedContent, type PastedInput } from './pasted-content';
+import { prepareUploadedFile, type UploadedFile } from './uploaded-content';
+import type { SummaryResult } from './cohere';
+import { getTables, getImages } from './document-model';
+import { DEFAULT_SUMMARY_PREFERENCES, type SummaryPreferences } from './summary-options';
+import { extractKeywords, keywordTerms, type Keyword } from './keywords';
+import { citedParagraphs } from './grounding';
+
+export interface PipelineResult {
+  scrapedContent: ScrapedContent;
+  summaryResult: SummaryResult;
+  summaryUrdu: string;
+  preferences: SummaryPreferences;
+  keywords: Keyword[];
+  saveResult: DatabaseResult<{ mongoId?: string; supabaseId?: number }>;
+}
+
+export interface PipelineOptions {
+  force?: boolean; // Summarize again even if the article was already processed
+  preferences?: SummaryPreferences; // Summary length, style and format; each combination is stored separately
+}
+
+export type PipelineOutcome =
+  | ({ status: 'processed' } & PipelineResult)
+  | { status: 'duplicate'; existing: BlogDocument };
+
+/**
+ * Run a single article through scrape → summarize → translate → save,
+ * returning the stored summary instead when the article was seen before
+ */
+export async function processArticleUrl(url: string, options: PipelineOptions = {}): Promise<PipelineOutcome> {
+  // Step 0: Skip scraping entirely for URLs we already know
+  if (!options.force) {
+    const existing = await findExisting([url], options);
+    if (existing) {
+      console.log('Article already summarized:', existing.canonicalUrl || existing.url);
+      await rememberAliases(existing, [url]);
+      return { status: 'duplicate', existing };
+    }
+  }
+
+  // Step 1: Scrape the blog content
+  console.log('Scraping content from:', url);
+  const scrapedContent = await scrapeBlogContent(url);
+
+  // Short links, AMP pages etc. only reveal their canonical URL once fetched
+  if (!options.force) {
+    const existing = await findExisting([scrapedContent.canonicalUrl, ...(scrapedContent.metadata?.pageUrls ?? [])], options);
+    if (existing) {
+      console.log('Article already summarized:', existing.canonicalUrl || existing.url);
+      await rememberAliases(existing, [url, scrapedContent.canonicalUrl]);
+      return { status: 'duplicate', existing };
+    }
+  }
+
+  return summarizeAndStore(scrapedContent, options.preferences);
+}
+
+/**
+ * Run pasted text, Markdown or HTML through the same summarize → translate
+ * → save steps as a scraped article
+ */
+export async function processPastedContent(input: PastedInput, options: PipelineOptions = {}): Promise<PipelineOutcome> {
+  // Step 1: Extract and clean the pasted content
+  console.log('Preparing pasted content...');
+  const scrapedContent = await preparePastedContent(input);
+
+  // Identical pastes share an identifier; URLs a paste names are not trusted
+  if (!options.force) {
+    const existing = await findExisting([scrapedContent.url], options);
+    if (existing) {
+      console.log('Content already summarized:', existing.canonicalUrl || existing.url);
+      return { status: 'duplicate', existing };
+    }
+  }
+
+  return summarizeAndStore(scrapedContent, options.preferences);
+}
+
+/**
+ * Run an uploaded PDF, DOCX, EPUB, Markdown or text file through the same
+ * summarize → translate → save steps as a scraped article
+ */
+export async function processUploadedFile(file: UploadedFile, options: PipelineOptions = {}): Promise<PipelineOutcome> {
+  // Step 1: Extract text locally, keeping page and chapter boundaries
+  console.log('Extracting uploaded file:', file.name);
+  const scrapedContent = await prepareUploadedFile(file);
+
+  // The identifier is the file hash, so re-uploads (even renamed) are duplicates
+  if (!options.force) {
+    const existing = await findExisting([scrapedContent.url], options);
+    if (existing) {
+      console.log('File already summarized:', existing.fileName || existing.url);
+      return { status: 'duplicate', existing };
+    }
+  }
+
+  return summarizeAndStore(scrapedContent, options.preferences);
+}
+
+/**
+ * Response body for a processed or already-summarized article, shared by
+ * the summarize and upload routes
+ */
+export function toResponseData(outcome: PipelineOutcome) {
+  if (outcome.status === 'duplicate') {
+    const { existing } = outcome;
+
+    // Return the stored summary instead of paying for a new one
+    return {
+      title: existing.title,
+      url: existing.url,
+      canonicalUrl: existing.canonicalUrl,
+      sourceType: existing.sourceType || 'url',
+      sourceLabel: existing.sourceLabel,
+      fileName: existing.fileName,
+      pageCount: existing.pageCount,
+      chapterCount: existing.chapterCount,
+      sourceLanguage: existing.sourceLanguage,
+      tags: existing.tags ?? [],
+      tables: existing.tables ?? [],
+      leadImage: existing.leadImage,
+      images: existing.images ?? [],
+      summary: existing.summary,
+      summaryUrdu: existing.summaryUrdu,
+      keyPoints: existing.keyPoints,
+      sections: existing.sections,
+      grounding: existing.grounding,
+      sourceParagraphs: existing.grounding ? citedParagraphs(existing.content, existing.grounding) : [],
+      summaryStrategy: existing.summaryStrategy,
+      chunkCount: existing.chunkCount,
+      summaryPreferences: existing.summaryPreferences ?? DEFAULT_SUMMARY_PREFERENCES,
+      wordCount: existing.wordCount,
+      originalLength: existing.originalLength,
+      mongoId: existing._id?.toString(),
+      scrapedAt: existing.scrapedAt,
+      aiPowered: existing.summaryStrategy !== 'extractive',
+      duplicate: true,
+    };
+  }
+
+  const { scrapedContent, summaryResult, summaryUrdu, preferences, keywords, saveResult } = outcome;
+
+  return {
+    title: scrapedContent.title,
+    url: scrapedContent.url,
+    canonicalUrl: scrapedContent.canonicalUrl,
+    sourceType: scrapedContent.sourceType,
+    sourceLabel: scrapedContent.sourceLabel,
+    fileName: scrapedContent.file?.name,
+    pageCount: scrapedContent.file?.pageCount,
+    chapterCount: scrapedContent.file?.chapterCount,
+    sourceLanguage: scrapedContent.metadata?.detectedLanguage.language,
+    tags: keywords.map(keyword => keyword.phrase),
+    tables: scrapedContent.document ? getTables(scrapedContent.document) : [],
+    leadImage: scrapedContent.leadImage,
+    images: scrapedContent.document ? getImages(scrapedContent.document) : [],
+    summary: summaryResult.summary,
+    summaryUrdu,
+    keyPoints: summaryResult.keyPoints,
+    sections: summaryResult.sections,
+    grounding: summaryResult.grounding,
+    sourceParagraphs: summaryResult.grounding ? citedParagraphs(scrapedContent.content, summaryResult.grounding) : [],
+    summaryStrategy: summaryResult.strategy,
+    chunkCount: summaryResult.chunkCount,
+    summaryPreferences: preferences,
+    wordCount: summaryResult.wordCount,
+    originalLength: summaryResult.originalLength,
+    mongoId: saveResult.data?.mongoId,
+    supabaseId: saveResult.data?.supabaseId,
+    scrapedAt: scrapedContent.scrapedAt,
+    aiPowered: summaryResult.strategy !== 'extractive',
+    duplicate: false,
+  };
+}
+
+/**
+ * Summarize, translate and save extracted content
+ */
+async function summarizeAndStore(
+  scrapedContent: ScrapedContent,
+  preferences: SummaryPreferences = DEFAULT_SUMMARY_PREFERENCES
+): Promise<PipelineOutcome> {
+  const detected = scrapedContent.metadata?.detectedLanguage;
+  const sourceLanguage = detected?.language ?? 'und';
+
+  // Step 2: Pick the key phrases that set this article apart from the stored ones
+  const keywords = await findKeywords(scrapedContent.content, sourceLanguage);
+
+  // Step 3: Generate an English summary using Cohere AI, whatever the source language
+  console.log(`Generating summary with Cohere AI (source language: ${detected?.name ?? 'unknown'})...`);
+  const summaryResult = await generateSummary(scrapedContent.content, scrapedContent.document, {
+    sourceLanguage,
+    preferences,
+    keywords,
+  });
+
+  let summaryUrdu: string;
+  if (sourceLanguage === 'ur' && detected?.script === 'arabic') {
+    // Step 4: Urdu articles are summarized in Urdu directly, not translated back from English
+    console.log('Source is Urdu, summarizing in Urdu instead of translating...');
+    const urduResult = await generateSummary(scrapedContent.content, scrapedContent.document, {
+      sourceLanguage,
+      outputLanguage: 'ur',
+      preferences,
+      keywords,
+    });
+    summaryUrdu = urduResult.summary;
+  } else {
+    // Step 4: Translate to Urdu using Cohere AI
+    console.log('Translating to Urdu with Cohere AI...');
+    summaryUrdu = await translateToUrdu(summaryResult.summary);
+  }
+
+  // Step 5: Save to databases
+  console.log('Saving to databases...');
+  const saveResult = await databaseService.saveToBothDatabases(
+    scrapedContent,
+    summaryResult,
+    summaryUrdu,
+    preferences,
+    keywords
+  );
+
+  return { status: 'processed', scrapedContent, summaryResult, summaryUrdu, preferences, keywords, saveResult };
+}
+
+/**
+ * Key phrases weighted against the stored corpus; without the corpus they
+ * are weighted by this article alone
+ */
+async function findKeywords(content: string, language: string): Promise<Keyword[]> {
+  const corpus = await databaseService.getDocumentFrequencies(keywordTerms(content, language));
+  if (!corpus.success) {
+    console.warn('Corpus keyword weighting skipped:', corpus.error);
+  }
+
+  return extractKeywords(content, { language, corpus: corpus.data });
+}
+
+/**
+ * Look up a stored summary of an article by URL, made with the requested
+ * preferences; lookup failures never block summarizing
+ */
+async function findExisting(urls: string[], options: PipelineOptions): Promise<BlogDocument | null> {
+  const result = await databaseService.findBlogDocumentByUrl(urls, options.preferences ?? DEFAULT_SUMMARY_PREFERENCES);
+  if (!result.success) {
+    console.warn('Duplicate check skipped:', result.error);
+    return null;
+  }
+
+  return result.data ?? null;
+}
+
+/**
+ * Remember the URLs an existing article was requested under, so later
+ * requests for them are answered without scraping
+ */
+async function rememberAliases(existing: BlogDocument, urls: string[]): Promise<void> {
+  const known = new Set(existing.urlAliases ?? []);
+  const added = urls.filter(url => !known.has(normalizeUrl(url)));
+
+  if (existing._id && added.length > 0) {
+    await databaseService.addUrlAliases(existing._id.toString(), added);
+  }
+}
@@ -0,0 +1,341 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { normalizeUnicodeText } from './text-utils';
+
+export interface ContentCandidate {
+  node: string;        // Short CSS-like description, e.g. "div#main.post-body"
+  score: number;
+  textLength: number;
+  linkDensity: number;
+}
+
+export interface ReadabilityResult {
+  content: string;
+  html: string;
+  score: number;
+  node: string;
+  mergedSiblings: number;
+  candidates: ContentCandidate[]; // Runners-up, best first
+}
+
+export interface ReadabilityOptions {
+  minParagraphLength: number;
+  maxCandidates: number;
+  siblingScoreRatio: number;
+}
+
+// Class/id patterns borrowed from Mozilla Readability
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pagination|pager|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|tags|toolbar|widget/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|story|text|blog/i;
+const NEGATIVE_CLASS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|cookie|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+// Punctuation that signals running prose, including Urdu/Arabic and CJK commas
+const COMMAS = /[,،、，]/g;
+const SENTENCE_END = /[.!?۔؟।。]$/;
+
+const REMOVED_TAGS = 'script, style, noscript, iframe, svg, canvas, template, nav, aside, form, button, select, input, textarea';
+const BLOCK_SEPARATED_TAGS = 'p, div, section, article, li, h1, h2, h3, h4, h5, h6, blockquote, pre, tr, td, th, dd, dt, br';
+const SCORABLE_TAGS = 'p, pre, td, blockquote, section, div';
+const BLOCK_CHILDREN = 'a, blockquote, dl, div, img, ol, p, pre, table, ul, section, article, h1, h2, h3, h4, h5, h6';
+
+const DEFAULT_OPTIONS: ReadabilityOptions = {
+  minParagraphLength: 25,
+  maxCandidates: 5,
+  siblingScoreRatio: 0.2,
+};
+
+/**
+ * Content scorer that picks the main article body the way Mozilla Readability
+ * does: paragraphs award points to their ancestors, class/id names and link
+ * density adjust the score, and qualifying siblings of the winner are merged.
+ */
+export class ReadabilityScorer {
+  private readonly options: ReadabilityOptions;
+
+  constructor(options?: Partial<ReadabilityOptions>) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Score the document and return the best content block, or null if no
+   * paragraph-like content was found
+   */
+  extract(html: string): ReadabilityResult | null {
+    // Work on a private copy so pruning never affects title/metadata extraction
+    const $ = cheerio.load(html);
+    this.prepareDocument($);
+
+    const scores = this.scoreParagraphs($);
+    if (scores.size === 0) {
+      return null;
+    }
+
+    const ranked = Array.from(scores.entries())
+      .map(([element, score]) => ({
+        element,
+        score: score * (1 - this.getLinkDensity($, element)),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const top = ranked[0];
+    const { html: mergedHtml, text, mergedSiblings } = this.mergeSiblings($, top.element, top.score, scores);
+
+    return {
+      content: text,
+      html: mergedHtml,
+      score: this.round(top.score),
+      node: this.describe(top.element),
+      mergedSiblings,
+      candidates: ranked.slice(1, this.options.maxCandidates + 1).map(({ element, score }) => ({
+        node: this.describe(element),
+        score: this.round(score),
+        textLength: this.getInnerText($, element).length,
+        linkDensity: this.round(this.getLinkDensity($, element)),
+      })),
+    };
+  }
+
+  /**
+   * Remove non-content elements and unlikely candidates
+   */
+  private prepareDocument($: cheerio.CheerioAPI): void {
+    $(REMOVED_TAGS).remove();
+
+    // Separate block-level text so adjacent paragraphs don't run together
+    $(BLOCK_SEPARATED_TAGS).after('\n');
+
+    $('body *').each((_, element) => {
+      const $element = $(element);
+      const tag = element.tagName.toLowerCase();
+      if (tag === 'body' || tag === 'article' || tag === 'main' || $element.closest('table').length > 0) {
+        return;
+      }
+
+      const matchString = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`;
+      const role = $element.attr('role') || '';
+      if (
+        (UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString)) ||
+        ['complementary', 'navigation', 'banner', 'contentinfo', 'dialog', 'alertdialog'].includes(role) ||
+        $element.attr('aria-hidden') === 'true' ||
+        /display:\s*none/i.test($element.attr('style') || '')
+      ) {
+        $element.remove();
+      }
+    });
+  }
+
+  /**
+   * Award each paragraph's score to its parent and grandparent (and, with
+   * decaying weight, one more ancestor level)
+   */
+  private scoreParagraphs($: cheerio.CheerioAPI): Map<Element, number> {
+    const scores = new Map<Element, number>();
+
+    $(SCORABLE_TAGS).each((_, element) => {
+      const tag = element.tagName.toLowerCase();
+
+      // Containers only count as paragraphs when they hold inline content
+      if ((tag === 'div' || tag === 'section') && $(element).children(BLOCK_CHILDREN).length > 0) {
+        return;
+      }
+
+      const text = this.getInnerText($, element);
+      if (text.length < this.options.minParagraphLength) {
+        return;
+      }
+
+      let contentScore = 1;
+      contentScore += (text.match(COMMAS) || []).length;
+      contentScore += Math.min(Math.floor(text.length / 100), 3);
+
+      const ancestors = $(element).parents().toArray().slice(0, 3);
+      ancestors.forEach((ancestor, level) => {
+        const ancestorTag = ancestor.tagName?.toLowerCase();
+        if (!ancestorTag || ancestorTag === 'html') {
+          return;
+        }
+
+        if (!scores.has(ancestor)) {
+          scores.set(ancestor, this.initialScore($, ancestor));
+        }
+
+        const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+        scores.set(ancestor, (scores.get(ancestor) || 0) + contentScore / divider);
+      });
+    });
+
+    return scores;
+  }
+
+  /**
+   * Merge siblings of the top candidate that look like part of the article
+   */
+  private mergeSiblings(
+    $: cheerio.CheerioAPI,
+    topElement: Element,
+    topScore: number,
+    scores: Map<Element, number>
+  ): { html: string; text: string; mergedSiblings: number } {
+    const parent = topElement.parent;
+    if (!parent || topElement.tagName.toLowerCase() === 'body') {
+      return this.collect($, [topElement], 0);
+    }
+
+    const threshold = Math.max(10, topScore * this.options.siblingScoreRatio);
+    const topClass = $(topElement).attr('class') || '';
+    const merged: Element[] = [];
+
+    $(parent).children().each((_, sibling) => {
+      if (sibling === topElement) {
+        merged.push(sibling);
+        return;
+      }
+
+      let bonus = 0;
+      if (topClass && $(sibling).attr('class') === topClass) {
+        bonus += topScore * this.options.siblingScoreRatio;
+      }
+
+      const siblingScore = scores.get(sibling);
+      if (siblingScore !== undefined && siblingScore * (1 - this.getLinkDensity($, sibling)) + bonus >= threshold) {
+        merged.push(sibling);
+        return;
+      }
+
+      if (sibling.tagName.toLowerCase() === 'p') {
+        const text = this.getInnerText($, sibling);
+        const linkDensity = this.getLinkDensity($, sibling);
+
+        if ((text.length > 80 && linkDensity < 0.25) ||
+            (text.length > 0 && linkDensity === 0 && SENTENCE_END.test(text))) {
+          merged.push(sibling);
+        }
+      }
+    });
+
+    return this.collect($, merged, merged.length - 1);
+  }
+
+  /**
+   * Concatenate the HTML and text of the chosen elements
+   */
+  private collect(
+    $: cheerio.CheerioAPI,
+    elements: Element[],
+    mergedSiblings: number
+  ): { html: string; text: string; mergedSiblings: number } {
+    return {
+      html: elements.map(element => $.html(element)).join('\n'),
+      text: elements.map(element => this.getInnerText($, element)).filter(Boolean).join('\n\n'),
+      mergedSiblings,
+    };
+  }
+
+  /**
+   * Base score from the tag name and class/id weight
+   */
+  private initialScore($: cheerio.CheerioAPI, element: Element): number {
+    let score = 0;
+
+    switch (element.tagName.toLowerCase()) {
+      case 'div':
+      case 'article':
+      case 'main':
+        score += 5;
+        break;
+      case 'pre':
+      case 'td':
+      case 'blockquote':
+        score += 3;
+        break;
+      case 'address':
+      case 'ol':
+      case 'ul':
+      case 'dl':
+      case 'dd':
+      case 'dt':
+      case 'li':
+      case 'form':
+        score -= 3;
+        break;
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+      case 'th':
+        score -= 5;
+        break;
+    }
+
+    return score + this.getClassWeight($, element);
+  }
+
+  /**
+   * +25/-25 per class or id that looks like content or boilerplate
+   */
+  private getClassWeight($: cheerio.CheerioAPI, element: Element): number {
+    let weight = 0;
+
+    for (const value of [$(element).attr('class'), $(element).attr('id')]) {
+      if (!value) continue;
+      if (NEGATIVE_CLASS.test(value)) weight -= 25;
+      if (POSITIVE_CLASS.test(value)) weight += 25;
+    }
+
+    return weight;
+  }
+
+  /**
+   * Share of the element's text that sits inside links (0-1)
+   */
+  private getLinkDensity($: cheerio.CheerioAPI, element: Element): number {
+    const textLength = this.getInnerText($, element).length;
+    if (textLength === 0) {
+      return 0;
+    }
+
+    let linkLength = 0;
+    $(element).find('a').each((_, link) => {
+      const href = $(link).attr('href') || '';
+      // In-page anchors (footnotes, table of contents) count for less
+      const coefficient = href.startsWith('#') ? 0.3 : 1;
+      linkLength += this.getInnerText($, link).length * coefficient;
+    });
+
+    return Math.min(1, linkLength / textLength);
+  }
+
+  /**
+   * Normalized text content of a node
+   */
+  private getInnerText($: cheerio.CheerioAPI, element: AnyNode): string {
+    return normalizeUnicodeText($(element).text());
+  }
+
+  /**
+   * Describe an element for debugging output
+   */
+  private describe(element: Element): string {
+    const id = element.attribs?.id ? `#${element.attribs.id}` : '';
+    const classes = (element.attribs?.class || '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 3)
+      .map(name => `.${name}`)
+      .join('');
+
+    return `${element.tagName.toLowerCase()}${id}${classes}`;
+  }
+
+  /**
+   * Round scores for readable metadata
+   */
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export const readabilityScorer = new ReadabilityScorer();
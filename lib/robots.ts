@@ -0,0 +1,440 @@
+import type { Collection } from 'mongodb';
+import type { PageFetcher } from './fetchers';
+import { FetchPolicyError, HttpStatusError } from './safe-http';
+import type { DatabaseResult } from './database';
+import { sleep } from './utils';
+
+// Honest identification; SCRAPER_USER_AGENT should name a contact URL or address
+export const DEFAULT_USER_AGENT = process.env.SCRAPER_USER_AGENT || 'BlogSummarizer/1.0 (+article summarizer; respects robots.txt)';
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string; // Path pattern, may contain * and a trailing $
+}
+
+export interface RobotsGroup {
+  userAgents: string[]; // Lower-cased product tokens, "*" for everyone
+  rules: RobotsRule[];
+  crawlDelay?: number; // Seconds
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  crawlDelayMs?: number; // From Crawl-delay, when the site sets one
+  overridden: boolean; // An admin override skipped the rules
+  reason: 'allowed' | 'disallowed' | 'unreachable' | 'overridden';
+}
+
+export interface RobotsCheckOptions {
+  fetcher: PageFetcher;
+  userAgent: string;
+  timeout: number;
+  allowPrivateNetworks?: boolean;
+  signal?: AbortSignal;
+}
+
+// Host an admin exempted from robots.txt rules
+export interface RobotsOverride {
+  host: string; // Also covers its subdomains
+  reason?: string;
+  createdAt: Date;
+}
+
+export class RobotsDisallowedError extends FetchPolicyError {
+  constructor(readonly url: string, readonly robotsUrl: string, readonly unreachable: boolean = false) {
+    super(
+      'DISALLOWED_BY_ROBOTS',
+      unreachable
+        ? `Not fetching ${url}: ${robotsUrl} could not be retrieved, so crawling is assumed to be disallowed`
+        : `Disallowed by robots.txt: ${url} (see ${robotsUrl})`,
+      403
+    );
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+interface CachedRobots {
+  robots: RobotsTxt | null; // null: treat everything as disallowed
+  expiresAt: number;
+}
+
+// RFC 9309 limits: parse at most 500 KiB, cache for up to a day
+const MAX_ROBOTS_BYTES = 500 * 1024;
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// Server errors disallow everything, but only until we ask again
+const UNREACHABLE_TTL_MS = 10 * 60 * 1000;
+const OVERRIDES_TTL_MS = 60 * 1000;
+
+const ALLOW_ALL: RobotsTxt = { groups: [], sitemaps: [] };
+
+/**
+ * Decides whether a URL may be fetched under its site's robots.txt, and
+ * spaces out requests to the same host
+ */
+export class RobotsService {
+  private readonly mongoDbName = 'blog_summarizer';
+  private readonly overridesCollection = 'robots_overrides';
+
+  private readonly cache = new Map<string, CachedRobots>();
+  private readonly inFlight = new Map<string, Promise<CachedRobots>>();
+  private readonly nextRequestAt = new Map<string, number>();
+  private overrides: { hosts: RobotsOverride[]; expiresAt: number } | null = null;
+
+  /**
+   * Check a URL against robots.txt (fetched and cached per origin) and admin overrides
+   */
+  async check(url: string, options: RobotsCheckOptions): Promise<RobotsDecision> {
+    const target = new URL(url);
+
+    if (await this.isOverridden(target.hostname)) {
+      return { allowed: true, overridden: true, reason: 'overridden' };
+    }
+
+    // The robots file itself is always fetchable
+    if (target.pathname === '/robots.txt') {
+      return { allowed: true, overridden: false, reason: 'allowed' };
+    }
+
+    const { robots } = await this.getRobots(target.origin, options);
+    if (!robots) {
+      return { allowed: false, overridden: false, reason: 'unreachable' };
+    }
+
+    const token = productToken(options.userAgent);
+    const allowed = isPathAllowed(robots, token, target.pathname + target.search);
+    const crawlDelay = getCrawlDelay(robots, token);
+
+    return {
+      allowed,
+      crawlDelayMs: crawlDelay !== undefined ? crawlDelay * 1000 : undefined,
+      overridden: false,
+      reason: allowed ? 'allowed' : 'disallowed',
+    };
+  }
+
+  /**
+   * Throw RobotsDisallowedError unless the URL may be fetched
+   */
+  async assertAllowed(url: string, options: RobotsCheckOptions): Promise<RobotsDecision> {
+    const decision = await this.check(url, options);
+    if (!decision.allowed) {
+      throw new RobotsDisallowedError(url, new URL('/robots.txt', url).toString(), decision.reason === 'unreachable');
+    }
+    return decision;
+  }
+
+  /**
+   * Wait until at least `delayMs` has passed since the previous request to
+   * the same host. Slots are reserved up front, so concurrent callers queue.
+   */
+  async waitForTurn(url: string, delayMs: number, signal?: AbortSignal): Promise<void> {
+    const host = new URL(url).host;
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextRequestAt.get(host) ?? 0);
+    this.nextRequestAt.set(host, startAt + delayMs);
+
+    if (startAt > now) {
+      await sleep(startAt - now, signal);
+    }
+  }
+
+  /**
+   * Forget cached robots.txt files (one origin, or all)
+   */
+  clearCache(origin?: string): void {
+    if (origin) {
+      this.cache.delete(origin);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * List hosts exempted from robots.txt
+   */
+  async getOverrides(): Promise<DatabaseResult<RobotsOverride[]>> {
+    try {
+      const collection = await this.getCollection();
+      const overrides = await collection.find({}, { projection: { _id: 0 } }).sort({ host: 1 }).toArray();
+
+      return {
+        success: true,
+        data: overrides,
+      };
+    } catch (error) {
+      console.error('Robots override list error:', error);
+      return {
+        success: false,
+        error: `Failed to list robots.txt overrides: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Exempt a host (and its subdomains) from robots.txt rules
+   */
+  async addOverride(host: string, reason?: string): Promise<DatabaseResult<RobotsOverride>> {
+    try {
+      const override: RobotsOverride = { host: normalizeHost(host), reason, createdAt: new Date() };
+      const collection = await this.getCollection();
+      await collection.replaceOne({ host: override.host }, override, { upsert: true });
+      this.overrides = null;
+
+      return {
+        success: true,
+        data: override,
+      };
+    } catch (error) {
+      console.error('Robots override save error:', error);
+      return {
+        success: false,
+        error: `Failed to save robots.txt override: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Remove a host's exemption
+   */
+  async removeOverride(host: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const collection = await this.getCollection();
+      const result = await collection.deleteOne({ host: normalizeHost(host) });
+      this.overrides = null;
+
+      return {
+        success: true,
+        data: result.deletedCount > 0,
+      };
+    } catch (error) {
+      console.error('Robots override delete error:', error);
+      return {
+        success: false,
+        error: `Failed to remove robots.txt override: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * True when an admin exempted the host or a parent domain
+   */
+  private async isOverridden(hostname: string): Promise<boolean> {
+    if (!this.overrides || this.overrides.expiresAt < Date.now()) {
+      const result = await this.getOverrides();
+      if (!result.success) {
+        console.warn('Robots overrides unavailable, applying robots.txt everywhere:', result.error);
+      }
+      this.overrides = { hosts: result.data ?? [], expiresAt: Date.now() + OVERRIDES_TTL_MS };
+    }
+
+    const host = normalizeHost(hostname);
+    return this.overrides.hosts.some(override => host === override.host || host.endsWith(`.${override.host}`));
+  }
+
+  /**
+   * Cached robots.txt for an origin; concurrent lookups share one download
+   */
+  private async getRobots(origin: string, options: RobotsCheckOptions): Promise<CachedRobots> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    let pending = this.inFlight.get(origin);
+    if (!pending) {
+      pending = this.fetchRobots(origin, options).finally(() => this.inFlight.delete(origin));
+      this.inFlight.set(origin, pending);
+    }
+
+    const entry = await pending;
+    this.cache.set(origin, entry);
+    return entry;
+  }
+
+  /**
+   * Download and parse robots.txt following RFC 9309: a missing file (4xx)
+   * allows everything, a server or network error disallows everything
+   */
+  private async fetchRobots(origin: string, options: RobotsCheckOptions): Promise<CachedRobots> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await options.fetcher.fetch(robotsUrl, {
+        timeout: options.timeout,
+        headers: { 'User-Agent': options.userAgent, 'Accept': 'text/plain, */*;q=0.5' },
+        maxRedirects: 5,
+        maxResponseBytes: MAX_ROBOTS_BYTES,
+        allowedContentTypes: [],
+        allowPrivateNetworks: options.allowPrivateNetworks,
+        signal: options.signal,
+      });
+
+      return { robots: parseRobotsTxt(response.body.toString('utf8')), expiresAt: Date.now() + ROBOTS_TTL_MS };
+    } catch (error) {
+      if (error instanceof HttpStatusError && error.status >= 400 && error.status < 500) {
+        return { robots: ALLOW_ALL, expiresAt: Date.now() + ROBOTS_TTL_MS };
+      }
+
+      // Blocked hosts and cancellations are the caller's error, not the site's
+      if ((error instanceof FetchPolicyError && error.code !== 'RESPONSE_TOO_LARGE') || options.signal?.aborted) {
+        throw error;
+      }
+
+      console.warn(`Could not retrieve ${robotsUrl}:`, error instanceof Error ? error.message : error);
+      return { robots: null, expiresAt: Date.now() + UNREACHABLE_TTL_MS };
+    }
+  }
+
+  /**
+   * Get the overrides collection, loading MongoDB lazily like the page cache
+   */
+  private async getCollection(): Promise<Collection<RobotsOverride>> {
+    const { default: clientPromise } = await import('./mongodb');
+    const client = await clientPromise;
+    return client.db(this.mongoDbName).collection<RobotsOverride>(this.overridesCollection);
+  }
+
+  /**
+   * Extract error message from unknown error type
+   */
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    return String(error);
+  }
+}
+
+/**
+ * Parse a robots.txt file into user-agent groups
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent':
+        // Consecutive User-agent lines share one group
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        collectingAgents = true;
+        break;
+      case 'allow':
+      case 'disallow':
+        collectingAgents = false;
+        // An empty Disallow allows everything; rules outside a group are ignored
+        if (current && value) {
+          current.rules.push({ allow: key === 'allow', pattern: value });
+        }
+        break;
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const seconds = Number(value);
+        if (current && Number.isFinite(seconds) && seconds >= 0) {
+          current.crawlDelay = seconds;
+        }
+        break;
+      }
+      case 'sitemap':
+        sitemaps.push(value);
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Apply the rules for a product token to a path (with query string): the
+ * longest matching pattern wins, Allow wins ties
+ */
+export function isPathAllowed(robots: RobotsTxt, token: string, path: string): boolean {
+  let best: RobotsRule | null = null;
+
+  for (const rule of matchingGroups(robots, token).flatMap(group => group.rules)) {
+    if (!patternMatches(rule.pattern, path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Crawl-delay (seconds) that applies to a product token
+ */
+export function getCrawlDelay(robots: RobotsTxt, token: string): number | undefined {
+  const delays = matchingGroups(robots, token)
+    .map(group => group.crawlDelay)
+    .filter((delay): delay is number => delay !== undefined);
+
+  return delays.length > 0 ? Math.max(...delays) : undefined;
+}
+
+/**
+ * Product token robots.txt groups are matched against: "BlogSummarizer"
+ * for "BlogSummarizer/1.0 (+...)"
+ */
+export function productToken(userAgent: string): string {
+  return (userAgent.match(/^[A-Za-z_-]+/)?.[0] || userAgent).toLowerCase();
+}
+
+/**
+ * Groups naming our token, or the "*" groups when none do
+ */
+function matchingGroups(robots: RobotsTxt, token: string): RobotsGroup[] {
+  const specific = robots.groups.filter(group => group.userAgents.includes(token));
+  return specific.length > 0 ? specific : robots.groups.filter(group => group.userAgents.includes('*'));
+}
+
+/**
+ * Match a robots.txt path pattern (* wildcard, $ end anchor) against a path
+ */
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const expression = body
+    .split('*')
+    .map(part => normalizePercentEncoding(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${expression}${anchored ? '$' : ''}`).test(normalizePercentEncoding(path));
+}
+
+/**
+ * Percent-encode non-ASCII characters and upper-case escapes, so encoded
+ * and unencoded forms of a path compare equal
+ */
+function normalizePercentEncoding(value: string): string {
+  return value
+    .replace(/%[0-9a-f]{2}/gi, escape => escape.toUpperCase())
+    .replace(/[^\x21-\x7e]+/g, characters => encodeURIComponent(characters));
+}
+
+/**
+ * Lower-cased host without a leading "www."
+ */
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+}
+
+export const robotsService = new RobotsService();
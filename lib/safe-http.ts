@@ -0,0 +1,305 @@
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { Readable } from 'stream';
+
+export type FetchPolicyCode =
+  | 'INVALID_URL'
+  | 'BLOCKED_ADDRESS'
+  | 'TOO_MANY_REDIRECTS'
+  | 'RESPONSE_TOO_LARGE'
+  | 'UNSUPPORTED_CONTENT_TYPE'
+  | 'DISALLOWED_BY_ROBOTS';
+
+/**
+ * A fetch refused by the network policy rather than failed by the remote
+ * server; never worth retrying. `status` is the HTTP status to report to API callers.
+ */
+export class FetchPolicyError extends Error {
+  constructor(
+    readonly code: FetchPolicyCode,
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'FetchPolicyError';
+  }
+}
+
+export class BlockedAddressError extends FetchPolicyError {
+  constructor(readonly hostname: string, readonly address?: string) {
+    super(
+      'BLOCKED_ADDRESS',
+      `Refusing to fetch ${hostname}${address && address !== hostname ? ` (${address})` : ''}: private, loopback and link-local addresses are not allowed`,
+      400
+    );
+    this.name = 'BlockedAddressError';
+  }
+}
+
+export class TooManyRedirectsError extends FetchPolicyError {
+  constructor(readonly maxRedirects: number) {
+    super('TOO_MANY_REDIRECTS', `Too many redirects (limit is ${maxRedirects})`, 400);
+    this.name = 'TooManyRedirectsError';
+  }
+}
+
+export class ResponseTooLargeError extends FetchPolicyError {
+  constructor(readonly maxBytes: number) {
+    super('RESPONSE_TOO_LARGE', `Response exceeds the ${Math.round(maxBytes / 1024)} KB size limit`, 413);
+    this.name = 'ResponseTooLargeError';
+  }
+}
+
+export class UnsupportedContentTypeError extends FetchPolicyError {
+  constructor(readonly contentType: string) {
+    super('UNSUPPORTED_CONTENT_TYPE', `Unsupported content type: ${contentType || 'unknown'}`, 415);
+    this.name = 'UnsupportedContentTypeError';
+  }
+}
+
+/**
+ * The server answered with an error status (4xx/5xx)
+ */
+export class HttpStatusError extends Error {
+  constructor(readonly status: number, readonly url: string, readonly headers: Record<string, string> = {}) {
+    super(`Request failed with status code ${status}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+export interface SafeFetchOptions {
+  timeout: number;
+  headers?: Record<string, string>;
+  maxRedirects: number;
+  maxResponseBytes: number;
+  // MIME types (e.g. "text/html") accepted; empty accepts anything
+  allowedContentTypes: string[];
+  // Development/testing escape hatch for fetching from localhost
+  allowPrivateNetworks?: boolean;
+  signal?: AbortSignal; // Cancels the request, including redirects and the body download
+}
+
+export interface SafeFetchResponse {
+  url: string; // Final URL after redirects
+  status: number;
+  headers: Record<string, string>;
+  contentType: string;
+  body: Buffer;
+  cache?: CacheInfo; // Set when the response went through the page cache
+}
+
+export interface CacheInfo {
+  status: 'miss' | 'revalidated' | 'updated';
+  changed: boolean; // Body differs from the previous scrape (true when there was none)
+  previousFetchedAt?: Date;
+}
+
+// Ranges that must never be reachable from user-supplied URLs
+const blockedRanges = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => blockedRanges.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['2001:db8::', 32], ['64:ff9b::', 96],
+].forEach(([network, prefix]) => blockedRanges.addSubnet(network as string, prefix as number, 'ipv6'));
+
+/**
+ * True for private, loopback, link-local, multicast and reserved addresses
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  return blockedRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Reject URLs that are not http(s) or whose host resolves to a blocked address
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new FetchPolicyError('INVALID_URL', 'Invalid URL provided', 400);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FetchPolicyError('INVALID_URL', `Unsupported protocol: ${parsed.protocol}`, 400);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname)) {
+    if (isBlockedAddress(hostname)) throw new BlockedAddressError(hostname);
+    return parsed;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    // Leave unresolvable hosts to the request itself, which reports ENOTFOUND
+    return parsed;
+  }
+
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+  if (blocked) {
+    throw new BlockedAddressError(hostname, blocked.address);
+  }
+
+  return parsed;
+}
+
+/**
+ * DNS lookup used by the guarded agents: checks the addresses actually
+ * connected to, so DNS rebinding between check and connect cannot slip through
+ */
+function guardedLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: Parameters<net.LookupFunction>[2]
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      callback(new BlockedAddressError(hostname, blocked.address), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+const guardedAgents = {
+  http: new http.Agent({ keepAlive: true, lookup: guardedLookup }),
+  https: new https.Agent({ keepAlive: true, lookup: guardedLookup }),
+};
+
+/**
+ * GET a URL under the fetch policy: public addresses only (re-checked on
+ * every redirect), a redirect cap, a body size cap and a content-type allow-list
+ */
+export async function safeFetch(url: string, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+  let currentUrl = url;
+
+  for (let redirects = 0; ; redirects++) {
+    options.signal?.throwIfAborted();
+
+    if (!options.allowPrivateNetworks) {
+      await assertPublicUrl(currentUrl);
+    }
+
+    const response = await axios.get<Readable>(currentUrl, {
+      timeout: options.timeout,
+      headers: options.headers,
+      signal: options.signal,
+      responseType: 'stream',
+      maxRedirects: 0,
+      validateStatus: () => true,
+      ...(options.allowPrivateNetworks ? {} : { httpAgent: guardedAgents.http, httpsAgent: guardedAgents.https }),
+    }).catch(error => {
+      // Surface policy errors raised inside the agent's DNS lookup as-is
+      throw error?.cause instanceof FetchPolicyError ? error.cause : error;
+    });
+
+    const headers = flattenHeaders(response.headers as Record<string, unknown>);
+    const location = headers['location'];
+
+    if (response.status >= 300 && response.status < 400 && location) {
+      response.data.destroy();
+      if (redirects >= options.maxRedirects) {
+        throw new TooManyRedirectsError(options.maxRedirects);
+      }
+      currentUrl = new URL(location, currentUrl).toString();
+      continue;
+    }
+
+    // Conditional request confirmed; the caller serves its cached copy
+    if (response.status === 304) {
+      response.data.destroy();
+      return {
+        url: currentUrl,
+        status: response.status,
+        headers,
+        contentType: headers['content-type'] || '',
+        body: Buffer.alloc(0),
+      };
+    }
+
+    if (response.status >= 400) {
+      response.data.destroy();
+      throw new HttpStatusError(response.status, currentUrl, headers);
+    }
+
+    const contentType = headers['content-type'] || '';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    if (options.allowedContentTypes.length > 0 && mimeType && !options.allowedContentTypes.includes(mimeType)) {
+      response.data.destroy();
+      throw new UnsupportedContentTypeError(mimeType);
+    }
+
+    const declaredLength = Number(headers['content-length']);
+    if (declaredLength > options.maxResponseBytes) {
+      response.data.destroy();
+      throw new ResponseTooLargeError(options.maxResponseBytes);
+    }
+
+    const body = await readLimited(response.data, options.maxResponseBytes);
+
+    return {
+      url: currentUrl,
+      status: response.status,
+      headers,
+      contentType,
+      body,
+    };
+  }
+}
+
+/**
+ * Buffer a response stream, aborting once it grows past the limit
+ */
+function readLimited(stream: Readable, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let total = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        stream.destroy();
+        reject(new ResponseTooLargeError(maxBytes));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Lower-cased header map with multi-value headers joined
+ */
+function flattenHeaders(raw: Record<string, unknown>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (value === undefined || value === null) continue;
+    headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return headers;
+}
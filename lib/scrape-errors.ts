@@ -0,0 +1,136 @@
+export type ScrapeErrorCode =
+  | 'BLOCKED'
+  | 'PAYWALLED'
+  | 'NOT_AN_ARTICLE'
+  | 'TOO_SHORT'
+  | 'TIMED_OUT'
+  | 'HTTP_STATUS';
+
+// What stopped us at the door
+export type BlockKind = 'bot-challenge' | 'consent-wall' | 'access-denied' | 'rate-limited';
+
+/**
+ * A page that was fetched (or attempted) but cannot be summarized. `status`
+ * is the HTTP status to report to API callers and `hint` tells the user
+ * what to do about it.
+ */
+export class ScrapeError extends Error {
+  constructor(
+    readonly code: ScrapeErrorCode,
+    message: string,
+    readonly url: string,
+    readonly status: number,
+    readonly hint: string,
+    readonly retryable: boolean = false,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+}
+
+export class BlockedError extends ScrapeError {
+  constructor(url: string, readonly kind: BlockKind, readonly signal: string, cause?: unknown) {
+    super('BLOCKED', `${BLOCK_DESCRIPTIONS[kind]} at ${url} (${signal})`, url, 502, BLOCK_HINTS[kind], kind === 'rate-limited', cause);
+    this.name = 'BlockedError';
+  }
+}
+
+export class PaywalledError extends ScrapeError {
+  constructor(url: string, readonly signal: string) {
+    super(
+      'PAYWALLED',
+      `Only a subscriber teaser is available at ${url} (${signal})`,
+      url,
+      422,
+      'This article is behind a paywall. If you have access, copy the article text and use "Paste Text" instead.'
+    );
+    this.name = 'PaywalledError';
+  }
+}
+
+export class NotAnArticleError extends ScrapeError {
+  constructor(url: string, reason: string) {
+    super(
+      'NOT_AN_ARTICLE',
+      `No article found at ${url}: ${reason}`,
+      url,
+      422,
+      'This page does not look like an article (it may be a home page, listing or app). Link directly to a single blog post.'
+    );
+    this.name = 'NotAnArticleError';
+  }
+}
+
+export class ContentTooShortError extends ScrapeError {
+  constructor(url: string, readonly wordCount: number, readonly issues: string[]) {
+    super(
+      'TOO_SHORT',
+      `Not enough text to summarize at ${url} (${wordCount} words): ${issues.join(', ')}`,
+      url,
+      422,
+      'There is too little text here to summarize. Check that the link points to the full article.'
+    );
+    this.name = 'ContentTooShortError';
+  }
+}
+
+export class ScrapeTimeoutError extends ScrapeError {
+  constructor(url: string, readonly timeoutMs: number, cause?: unknown) {
+    super(
+      'TIMED_OUT',
+      `Timed out after ${timeoutMs} ms fetching ${url}`,
+      url,
+      504,
+      'The site took too long to respond. Try again in a few minutes.',
+      true,
+      cause
+    );
+    this.name = 'ScrapeTimeoutError';
+  }
+}
+
+export class HttpStatusScrapeError extends ScrapeError {
+  constructor(url: string, readonly httpStatus: number, cause?: unknown) {
+    super(
+      'HTTP_STATUS',
+      `The site answered ${url} with HTTP ${httpStatus}`,
+      url,
+      httpStatus === 404 || httpStatus === 410 ? 404 : 502,
+      httpStatusHint(httpStatus),
+      httpStatus >= 500,
+      cause
+    );
+    this.name = 'HttpStatusScrapeError';
+  }
+}
+
+const BLOCK_DESCRIPTIONS: Record<BlockKind, string> = {
+  'bot-challenge': 'Bot challenge',
+  'consent-wall': 'Cookie consent wall',
+  'access-denied': 'Access denied',
+  'rate-limited': 'Rate limited',
+};
+
+const BLOCK_HINTS: Record<BlockKind, string> = {
+  'bot-challenge': 'This site asks visitors to prove they are human, which we cannot do. Open the article in your browser and use "Paste Text" instead.',
+  'consent-wall': 'This site shows a cookie consent page before the article. Open it in your browser, accept or decline, and use "Paste Text" instead.',
+  'access-denied': 'This site refuses automated readers. Open the article in your browser and use "Paste Text" instead.',
+  'rate-limited': 'The site is limiting how often we can fetch it. Try again in a few minutes.',
+};
+
+/**
+ * Advice for a failed HTTP status
+ */
+function httpStatusHint(status: number): string {
+  if (status === 404 || status === 410) {
+    return 'The page was not found. Check the link for typos or whether the article was moved.';
+  }
+  if (status === 401) {
+    return 'This page requires signing in. If you have access, copy the article text and use "Paste Text" instead.';
+  }
+  if (status >= 500) {
+    return 'The site is having problems right now. Try again later.';
+  }
+  return 'The site refused the request. Check the link, or paste the article text instead.';
+}
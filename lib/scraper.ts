@@ -1,20 +1,103 @@
-import axios, { AxiosRequestConfig } from 'axios';
 import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import {
+  normalizeUnicodeText,
+  detectScript,
+  splitSentences,
+  countWords,
+  ScriptDetection,
+} from './text-utils';
+import { detectLanguage, LanguageDetection } from './language-detection';
+import { readabilityScorer, ContentCandidate } from './readability';
+import {
+  buildArticleDocument,
+  renderMarkdown,
+  documentToPlainText,
+  getImages,
+  ArticleDocument,
+} from './document-model';
+import { siteAdapterRegistry, SiteAdapterRegistry, AdapterResult } from './site-adapters';
+import { declaredCanonicalUrl, resolveCanonicalUrl } from './url-utils';
+import { FetchPolicyError, HttpStatusError, CacheInfo } from './safe-http';
+import { decodeBody, CharsetSource } from './charset';
+import { createDefaultFetcher, PageFetcher, FixtureNotFoundError } from './fetchers';
+import { extractStructuredMetadata, parseDate, ArticleMetadata, MetadataSource } from './structured-metadata';
+import { findNextPageUrl, normalizePageUrl } from './pagination';
+import type { FileInfo } from './uploaded-content';
+import {
+  ScrapeError,
+  BlockedError,
+  PaywalledError,
+  NotAnArticleError,
+  ContentTooShortError,
+  ScrapeTimeoutError,
+  HttpStatusScrapeError,
+} from './scrape-errors';
+import { detectPageBarrier, detectBlockedResponse } from './page-barriers';
+import { robotsService, RobotsService, DEFAULT_USER_AGENT } from './robots';
+import { BatchScraper, BatchScrapeError, BatchScrapeOptions, BatchScrapeResult } from './batch-scraper';
+import { sleep } from './utils';
 
 export interface ScrapedContent {
   title: string;
   content: string;
+  document?: ArticleDocument;
+  markdown?: string;
   url: string;
+  canonicalUrl: string; // Normalized canonical URL, used to detect already-summarized articles
+  sourceType: SourceType;
+  sourceLabel?: string; // Where pasted content came from, as given by the user, or the uploaded file name
+  leadImage?: LeadImage;
+  file?: FileInfo; // Set for uploaded files
   scrapedAt: Date;
+  changedSinceLastScrape?: boolean; // Unset when the page cache was not used
+
   metadata?: {
     description?: string;
-    author?: string;
-    publishDate?: string;
+    author?: string; // All authors, comma separated
+    authors: string[];
+    publishDate?: string; // ISO 8601
+    modifiedDate?: string; // ISO 8601
+    headline?: string;
+    publisher?: string;
+    section?: string;
+    keywords: string[];
+    language?: string; // As declared by the page
+    detectedLanguage: LanguageDetection; // Identified from the text itself
+    leadImage?: string; // As declared by the page (og:image, JSON-LD, Twitter card)
+    schemaType?: string;
+    metadataSources: MetadataSource[];
     wordCount: number;
     contentQuality: ContentQuality;
+    script: ScriptDetection;
+    extraction: ExtractionInfo;
+    adapter?: string;
+    pagesMerged: number;
+    pageUrls: string[];
+    declaredCanonicalUrl?: string; // Claimed by pasted HTML; shown only, never used to match stored articles
+    cache?: CacheInfo;
+    encoding?: { charset: string; source: CharsetSource };
   };
 }
 
+export interface LeadImage {
+  url: string; // Absolute URL
+  alt?: string;
+  caption?: string;
+  source: 'metadata' | 'figure'; // Declared by the page, or the first large image in the article
+}
+
+// How the article reached us
+export type SourceType = 'url' | 'html' | 'markdown' | 'text' | 'pdf' | 'docx' | 'epub';
+
+export interface ExtractionInfo {
+  strategy: 'adapter' | 'readability' | 'selector' | 'largest-block' | 'paragraphs' | 'verbatim';
+  node?: string;
+  score?: number;
+  mergedSiblings?: number;
+  candidates: ContentCandidate[];
+}
+
 export interface ContentQuality {
   score: number; // 0-1
   issues: string[];
@@ -27,15 +110,50 @@ export interface ScrapingConfig {
   userAgent: string;
   validateContent: boolean;
   minContentLength: number;
+  followPagination: boolean;
+  maxPages: number;
+  maxRedirects: number;
+  maxResponseBytes: number;
+  allowedContentTypes: string[];
+  allowPrivateNetworks: boolean; // Only for local development and tests
+  respectRobotsTxt: boolean;
+  minHostDelayMs: number; // Minimum spacing between requests to one host
+  maxCrawlDelayMs: number; // Cap on robots.txt Crawl-delay
+  signal?: AbortSignal; // Cancels fetches, continuation pages and retry waits
+}
+
+// Images narrower than this are not used as the lead image; images without
+// a declared width are given the benefit of the doubt
+const LEAD_IMAGE_MIN_WIDTH = 300;
+
+interface ContinuationPage {
+  url: string;
+  content: string;
+  contentHtml: string;
 }
 
 export class WebScraper {
+  constructor(
+    private readonly siteAdapters: SiteAdapterRegistry = siteAdapterRegistry,
+    private readonly fetcher: PageFetcher = createDefaultFetcher(),
+    private readonly robots: RobotsService = robotsService
+  ) {}
+
   private readonly defaultConfig: ScrapingConfig = {
     timeout: 15000,
     maxRetries: 3,
-    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    userAgent: DEFAULT_USER_AGENT,
     validateContent: true,
     minContentLength: 100,
+    followPagination: true,
+    maxPages: 5,
+    maxRedirects: 5,
+    maxResponseBytes: 5 * 1024 * 1024,
+    allowedContentTypes: ['text/html', 'application/xhtml+xml'],
+    allowPrivateNetworks: false,
+    respectRobotsTxt: true,
+    minHostDelayMs: Number(process.env.SCRAPER_MIN_HOST_DELAY_MS ?? 1000),
+    maxCrawlDelayMs: 30000,
   };
 
   private readonly contentSelectors = [
@@ -83,34 +201,132 @@ export class WebScraper {
       try {
         return await this.attemptScrape(url, scrapeConfig);
       } catch (error) {
+        // Policy refusals (blocked address, size, content type), missing
+        // fixtures, paywalls, non-articles etc. won't change on retry, and
+        // cancelled scrapes stay cancelled
+        if (
+          error instanceof FetchPolicyError ||
+          error instanceof FixtureNotFoundError ||
+          (error instanceof ScrapeError && !error.retryable) ||
+          scrapeConfig.signal?.aborted
+        ) {
+          throw error;
+        }
+
         lastError = error as Error;
         console.warn(`Scraping attempt ${attempt} failed for ${url}:`, error);
 
         if (attempt < scrapeConfig.maxRetries) {
-          await this.delay(1000 * attempt); // Exponential backoff
+          await sleep(1000 * attempt, scrapeConfig.signal); // Exponential backoff
         }
       }
     }
 
-    throw new Error(`Failed to scrape content after ${scrapeConfig.maxRetries} attempts. Last error: ${lastError?.message}`);
+    // Timeouts and server errors keep their type once retries run out
+    if (lastError instanceof ScrapeError) {
+      throw lastError;
+    }
+
+    throw new Error(`Failed to scrape content after ${scrapeConfig.maxRetries} attempts. Last error: ${lastError?.message}`, { cause: lastError });
   }
 
   /**
-   * Scrape multiple URLs concurrently
+   * Extract an article from HTML obtained without fetching (pasted pages,
+   * saved newsletters). `url` identifies the result; relative links resolve
+   * against `baseUrl`.
    */
-  async scrapeMultiple(urls: string[], config?: Partial<ScrapingConfig>): Promise<Array<ScrapedContent | Error>> {
-    const results = await Promise.allSettled(
-      urls.map(url => this.scrapeContent(url, config))
-    );
+  async scrapeHtml(
+    html: string,
+    url: string,
+    config?: Partial<ScrapingConfig>,
+    baseUrl: string = url
+  ): Promise<ScrapedContent> {
+    // Nothing to paginate through without fetching
+    const scrapeConfig = { ...this.defaultConfig, ...config, followPagination: false };
+    const scraped = await this.processHtml(html, url, baseUrl, scrapeConfig);
+
+    // Anyone can paste HTML that claims to be a published page, so it is
+    // identified by `url` alone; neither the base URL nor its canonical link
+    // may match it to stored articles
+    return {
+      ...scraped,
+      canonicalUrl: url,
+      sourceType: 'html',
+      metadata: scraped.metadata && {
+        ...scraped.metadata,
+        pageUrls: [url],
+        declaredCanonicalUrl: declaredCanonicalUrl(cheerio.load(html), baseUrl),
+      },
+    };
+  }
+
+  /**
+   * Build a result from HTML that already is the article body (converted
+   * pasted text or Markdown): no extraction, the same cleaning and metadata
+   */
+  buildFromArticleHtml(
+    contentHtml: string,
+    url: string,
+    title: string,
+    sourceType: SourceType,
+    config?: Partial<ScrapingConfig>
+  ): ScrapedContent {
+    const scrapeConfig = { ...this.defaultConfig, ...config };
+    const $ = cheerio.load(contentHtml);
+
+    const document = buildArticleDocument(contentHtml, url);
+    const content = this.cleanText(documentToPlainText(document));
+
+    if (scrapeConfig.validateContent) {
+      this.assertQuality(content, url, scrapeConfig.minContentLength);
+    }
+
+    const extraction: ExtractionInfo = { strategy: 'verbatim', candidates: [] };
+    const structured = extractStructuredMetadata($, url);
+    const metadata = this.extractMetadata($, content, structured, extraction, null, []);
+
+    return {
+      title,
+      content,
+      document,
+      markdown: renderMarkdown(document, title),
+      url,
+      canonicalUrl: url,
+      sourceType,
+      leadImage: this.findLeadImage(structured.image, document),
+      scrapedAt: new Date(),
+      metadata,
+    };
+  }
 
-    return results.map((result, index) => {
+  /**
+   * Scrape multiple URLs with global and per-host concurrency limits;
+   * results (or BatchScrapeErrors) come back in input order
+   */
+  async scrapeMultiple(
+    urls: string[],
+    config?: Partial<ScrapingConfig>,
+    options: Omit<BatchScrapeOptions, 'config'> = {}
+  ): Promise<Array<ScrapedContent | BatchScrapeError>> {
+    const results: Array<ScrapedContent | BatchScrapeError> = new Array(urls.length);
+
+    for await (const result of this.scrapeBatch(urls, { ...options, config })) {
       if (result.status === 'fulfilled') {
-        return result.value;
+        results[result.index] = result.content;
       } else {
-        console.warn(`Failed to scrape URL ${urls[index]}:`, result.reason);
-        return new Error(result.reason);
+        console.warn(`Failed to scrape URL ${result.url}:`, result.error.cause);
+        results[result.index] = result.error;
       }
-    });
+    }
+
+    return results;
+  }
+
+  /**
+   * Scrape multiple URLs, yielding each result as soon as it completes
+   */
+  scrapeBatch(urls: string[], options: BatchScrapeOptions = {}): AsyncGenerator<BatchScrapeResult> {
+    return new BatchScraper(this).run(urls, options);
   }
 
   /**
@@ -154,7 +370,7 @@ export class WebScraper {
     }
 
     // Check content structure
-    const sentenceCount = content.split(/[.!?]+/).filter(s => s.trim().length > 10).length;
+    const sentenceCount = splitSentences(content).filter(s => s.length > 10).length;
     if (sentenceCount < 3) {
       issues.push('Content lacks proper sentence structure');
       score -= 0.2;
@@ -170,32 +386,57 @@ export class WebScraper {
   /**
    * Extract metadata from the webpage
    */
-  private extractMetadata($: cheerio.CheerioAPI, content: string): ScrapedContent['metadata'] {
-    const description = $('meta[name="description"]').attr('content') ||
-                       $('meta[property="og:description"]').attr('content') ||
-                       '';
-
-    const author = $('meta[name="author"]').attr('content') ||
-                   $('meta[property="article:author"]').attr('content') ||
-                   $('.author').first().text().trim() ||
-                   $('[rel="author"]').first().text().trim() ||
-                   '';
-
-    const publishDate = $('meta[property="article:published_time"]').attr('content') ||
-                        $('meta[name="date"]').attr('content') ||
-                        $('time[datetime]').attr('datetime') ||
-                        $('.date').first().text().trim() ||
-                        '';
+  private extractMetadata(
+    $: cheerio.CheerioAPI,
+    content: string,
+    structured: ArticleMetadata,
+    extraction: ExtractionInfo,
+    adapted: AdapterResult | null,
+    pageUrls: string[]
+  ): ScrapedContent['metadata'] {
+    const description = structured.description || '';
+
+    // Site adapters know their markup best; JSON-LD/microdata/meta tags next;
+    // loose byline and date elements last
+    const adapterAuthor = adapted?.author ? this.cleanText(adapted.author) : '';
+    const bylineAuthor = this.cleanText($('.author').first().text()) ||
+                         this.cleanText($('[rel="author"]').first().text());
+    const authors = adapterAuthor
+      ? [adapterAuthor]
+      : structured.authors.length > 0 ? structured.authors : bylineAuthor ? [bylineAuthor] : [];
+
+    const publishDate = parseDate(adapted?.publishDate) ||
+                        structured.datePublished ||
+                        parseDate($('time[datetime]').first().attr('datetime')) ||
+                        parseDate($('.date').first().text());
 
     const wordCount = this.countWords(content);
     const contentQuality = this.validateContent(content);
+    const script = detectScript(content);
+    const detectedLanguage = detectLanguage(content);
 
     return {
       description: description || undefined,
-      author: author || undefined,
-      publishDate: publishDate || undefined,
+      author: authors.length > 0 ? authors.join(', ') : undefined,
+      authors,
+      publishDate,
+      modifiedDate: structured.dateModified,
+      headline: structured.headline,
+      publisher: structured.publisher,
+      section: structured.section,
+      keywords: structured.keywords,
+      language: structured.language,
+      detectedLanguage,
+      leadImage: structured.image,
+      schemaType: structured.type,
+      metadataSources: structured.sources,
       wordCount,
       contentQuality,
+      script,
+      extraction,
+      adapter: adapted?.adapter,
+      pagesMerged: pageUrls.length,
+      pageUrls,
     };
   }
 
@@ -203,47 +444,256 @@ export class WebScraper {
    * Attempt to scrape content from URL
    */
   private async attemptScrape(url: string, config: ScrapingConfig): Promise<ScrapedContent> {
-    const requestConfig: AxiosRequestConfig = {
-      timeout: config.timeout,
-      headers: {
-        'User-Agent': config.userAgent,
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1',
+    const page = await this.fetchPage(url, config);
+
+    // Short links and other redirects: page.url is the page actually served
+    const scraped = await this.processHtml(page.html, url, page.url, config);
+
+    return {
+      ...scraped,
+      changedSinceLastScrape: page.cache?.changed,
+      metadata: scraped.metadata && {
+        ...scraped.metadata,
+        cache: page.cache,
+        encoding: { charset: page.charset, source: page.charsetSource },
       },
     };
+  }
 
-    const response = await axios.get(url, requestConfig);
-    const $ = cheerio.load(response.data);
+  /**
+   * Extract an article from a fetched (or pasted) HTML document
+   */
+  private async processHtml(
+    rawHtml: string,
+    url: string,
+    finalUrl: string,
+    config: ScrapingConfig
+  ): Promise<ScrapedContent> {
+    // Apply a site-specific adapter (selectors and cleanup) when one matches
+    const adapted = this.siteAdapters.extract(rawHtml, finalUrl);
+    const html = adapted?.html ?? rawHtml;
+    const $ = cheerio.load(html);
 
     // Extract title
-    const title = this.extractTitle($);
+    const title = adapted?.title ? this.cleanText(adapted.title) : this.extractTitle($);
+
+    const canonicalUrl = resolveCanonicalUrl($, finalUrl);
+
+    // Read JSON-LD and meta tags before content extraction strips scripts
+    const structured = extractStructuredMetadata($, finalUrl);
+
+    // Look for a second page before content extraction prunes the document
+    const nextPageUrl = config.followPagination ? findNextPageUrl($, finalUrl, finalUrl) : null;
     
-    // Extract main content
-    const content = this.extractContent($);
+    // Extract main content; pages with nothing extractable may be interstitials
+    let firstPage: ReturnType<WebScraper['extractContent']>;
+    try {
+      firstPage = this.extractContent($, html, adapted, finalUrl);
+    } catch (error) {
+      if (error instanceof NotAnArticleError) {
+        this.assertNoBarrier(rawHtml, '', finalUrl);
+      }
+      throw error;
+    }
+    const { extraction } = firstPage;
+
+    // Stitch the bodies of any follow-up pages onto the first one
+    const continuation = nextPageUrl
+      ? await this.fetchContinuationPages(finalUrl, nextPageUrl, firstPage.content, config)
+      : [];
+    const content = continuation.length > 0
+      ? this.cleanText([firstPage.content, ...continuation.map(page => page.content)].join('\n\n'))
+      : firstPage.content;
+    const contentHtml = [firstPage.contentHtml, ...continuation.map(page => page.contentHtml)].join('\n');
+    const pageUrls = [finalUrl, ...continuation.map(page => page.url)];
+
+    // A consent page, bot challenge or paywall teaser is not the article
+    this.assertNoBarrier(rawHtml, content, finalUrl);
 
     // Validate content if required
     if (config.validateContent) {
-      const quality = this.validateContent(content, config.minContentLength);
-      if (quality.score < 0.3) {
-        throw new Error(`Poor content quality (score: ${quality.score}): ${quality.issues.join(', ')}`);
-      }
+      this.assertQuality(content, finalUrl, config.minContentLength);
     }
 
     // Extract metadata
-    const metadata = this.extractMetadata($, content);
+    const metadata = this.extractMetadata($, content, structured, extraction, adapted, pageUrls);
+
+    // Build the structured view of the article body
+    const document = buildArticleDocument(contentHtml, finalUrl);
 
     return {
       title,
       content,
+      document,
+      markdown: renderMarkdown(document, title),
       url,
+      canonicalUrl,
+      sourceType: 'url',
+      leadImage: this.findLeadImage(structured.image, document),
       scrapedAt: new Date(),
       metadata,
     };
   }
 
+  /**
+   * Fetch and extract follow-up pages of a multi-page article, stopping at
+   * the page limit, on a URL loop or when a page repeats earlier content
+   */
+  private async fetchContinuationPages(
+    firstUrl: string,
+    nextUrl: string,
+    firstContent: string,
+    config: ScrapingConfig
+  ): Promise<ContinuationPage[]> {
+    const pages: ContinuationPage[] = [];
+    const visited = new Set<string>([normalizePageUrl(firstUrl)]);
+    const fingerprints = new Set<string>([this.fingerprint(firstContent)]);
+    let pageUrl: string | null = nextUrl;
+
+    while (pageUrl && pages.length + 1 < config.maxPages) {
+      const key = normalizePageUrl(pageUrl);
+      if (visited.has(key)) {
+        break;
+      }
+      visited.add(key);
+
+      try {
+        const { html: rawHtml } = await this.fetchPage(pageUrl, config);
+        const adapted = this.siteAdapters.extract(rawHtml, pageUrl);
+        const html = adapted?.html ?? rawHtml;
+        const $ = cheerio.load(html);
+
+        const followingUrl = findNextPageUrl($, pageUrl, firstUrl);
+        const { content, contentHtml } = this.extractContent($, html, adapted, pageUrl);
+
+        const fingerprint = this.fingerprint(content);
+        if (fingerprints.has(fingerprint)) {
+          break;
+        }
+        fingerprints.add(fingerprint);
+
+        pages.push({ url: pageUrl, content, contentHtml });
+        pageUrl = followingUrl;
+      } catch (error) {
+        if (config.signal?.aborted) {
+          throw error;
+        }
+
+        // Keep what we have; a broken later page shouldn't fail the whole scrape
+        console.warn(`Failed to fetch continuation page ${pageUrl}:`, error);
+        break;
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Download a page through the configured fetcher (live HTTP with public
+   * addresses only, capped redirects and size, HTML content types; or fixtures)
+   * once robots.txt allows it and the host's politeness delay has passed
+   */
+  private async fetchPage(
+    url: string,
+    config: ScrapingConfig
+  ): Promise<{ url: string; html: string; cache?: CacheInfo; charset: string; charsetSource: CharsetSource }> {
+    let crawlDelayMs = 0;
+    if (config.respectRobotsTxt) {
+      const decision = await this.robots.assertAllowed(url, {
+        fetcher: this.fetcher,
+        userAgent: config.userAgent,
+        timeout: config.timeout,
+        allowPrivateNetworks: config.allowPrivateNetworks,
+        signal: config.signal,
+      });
+      crawlDelayMs = Math.min(decision.crawlDelayMs ?? 0, config.maxCrawlDelayMs);
+    }
+    await this.robots.waitForTurn(url, Math.max(config.minHostDelayMs, crawlDelayMs), config.signal);
+
+    const response = await this.fetcher.fetch(url, {
+      timeout: config.timeout,
+      headers: {
+        'User-Agent': config.userAgent,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate',
+        'Upgrade-Insecure-Requests': '1',
+      },
+      maxRedirects: config.maxRedirects,
+      maxResponseBytes: config.maxResponseBytes,
+      allowedContentTypes: config.allowedContentTypes,
+      allowPrivateNetworks: config.allowPrivateNetworks,
+      signal: config.signal,
+    }).catch(error => {
+      throw this.toScrapeError(error, url, config);
+    });
+
+    // Decode the raw bytes ourselves: header, BOM and <meta charset> all count
+    const decoded = decodeBody(response.body, response.contentType);
+
+    return {
+      url: response.url,
+      html: decoded.text,
+      cache: response.cache,
+      charset: decoded.encoding,
+      charsetSource: decoded.source,
+    };
+  }
+
+  /**
+   * Give transport failures a scrape error type: error statuses (telling
+   * bot protection apart from ordinary failures) and timeouts
+   */
+  private toScrapeError(error: unknown, url: string, config: ScrapingConfig): unknown {
+    if (error instanceof HttpStatusError) {
+      const blocked = detectBlockedResponse(error.status, error.headers);
+      return blocked
+        ? new BlockedError(url, blocked.kind, blocked.signal, error)
+        : new HttpStatusScrapeError(url, error.status, error);
+    }
+
+    const code = (error as { code?: string } | null)?.code;
+    if (!config.signal?.aborted && (code === 'ECONNABORTED' || code === 'ETIMEDOUT')) {
+      return new ScrapeTimeoutError(url, config.timeout, error);
+    }
+
+    return error;
+  }
+
+  /**
+   * Throw when a consent wall, bot challenge or paywall stands in for the article
+   */
+  private assertNoBarrier(rawHtml: string, content: string, url: string): void {
+    const barrier = detectPageBarrier(rawHtml, content, url);
+    if (!barrier) return;
+
+    throw barrier.kind === 'paywall'
+      ? new PaywalledError(url, barrier.signal)
+      : new BlockedError(url, barrier.kind, barrier.signal);
+  }
+
+  /**
+   * Throw a typed error for content not worth summarizing: too little text,
+   * or text that is not prose (link lists, navigation, repeated boilerplate)
+   */
+  private assertQuality(content: string, url: string, minLength: number): void {
+    const quality = this.validateContent(content, minLength);
+    if (quality.score >= 0.3) return;
+
+    const wordCount = this.countWords(content);
+    if (content.length < minLength || wordCount < 50) {
+      throw new ContentTooShortError(url, wordCount, quality.issues);
+    }
+    throw new NotAnArticleError(url, `poor content quality (score: ${quality.score}): ${quality.issues.join(', ')}`);
+  }
+
+  /**
+   * Hash page content for duplicate-page detection
+   */
+  private fingerprint(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+
   /**
    * Extract title using multiple strategies
    */
@@ -270,31 +720,86 @@ export class WebScraper {
   /**
    * Extract main content using multiple strategies
    */
-  private extractContent($: cheerio.CheerioAPI): string {
-    // Strategy 1: Try specific content selectors
+  private extractContent(
+    $: cheerio.CheerioAPI,
+    html: string,
+    adapted: AdapterResult | null,
+    pageUrl: string
+  ): { content: string; contentHtml: string; extraction: ExtractionInfo } {
+    // Plain text always comes from the document model, so tables keep their
+    // rows and columns instead of running all cell text together
+
+    // Strategy 0: Content located by a site adapter
+    if (adapted?.contentHtml) {
+      const content = this.documentText(adapted.contentHtml);
+      if (content.length > 100) {
+        return {
+          content,
+          contentHtml: adapted.contentHtml,
+          extraction: { strategy: 'adapter', node: adapted.adapter, candidates: [] },
+        };
+      }
+    }
+
+    // Strategy 1: Readability-style content scoring
+    const scored = readabilityScorer.extract(html);
+    if (scored) {
+      const content = this.documentText(scored.html);
+      if (content.length > 100) {
+        return {
+          content,
+          contentHtml: scored.html,
+          extraction: {
+            strategy: 'readability',
+            node: scored.node,
+            score: scored.score,
+            mergedSiblings: scored.mergedSiblings,
+            candidates: scored.candidates,
+          },
+        };
+      }
+    }
+
+    const candidates = scored?.candidates ?? [];
+
+    // Strategy 2: Try specific content selectors
     for (const selector of this.contentSelectors) {
       const element = $(selector);
       if (element.length > 0) {
-        const content = this.extractTextFromElement($, element.first());
-        if (content.length > 100) {
-          return content;
+        // Also strips navigation and other clutter from the element
+        const text = this.extractTextFromElement($, element.first());
+        if (text.length > 100) {
+          const contentHtml = $.html(element.first());
+          return {
+            content: this.documentText(contentHtml),
+            contentHtml,
+            extraction: { strategy: 'selector', node: selector, candidates },
+          };
         }
       }
     }
 
-    // Strategy 2: Find the largest text block
+    // Strategy 3: Find the largest text block
     const textBlocks = this.findLargestTextBlocks($);
     if (textBlocks.length > 0) {
-      return textBlocks[0];
+      return {
+        content: this.documentText(textBlocks[0].html),
+        contentHtml: textBlocks[0].html,
+        extraction: { strategy: 'largest-block', candidates },
+      };
     }
 
-    // Strategy 3: Extract all paragraphs
-    const paragraphs = $('p').map((_, el) => $(el).text().trim()).get().filter(text => text.length > 20);
+    // Strategy 4: Extract all paragraphs
+    const paragraphs = $('p').filter((_, el) => $(el).text().trim().length > 20);
     if (paragraphs.length > 0) {
-      return paragraphs.join('\n\n');
+      return {
+        content: paragraphs.map((_, el) => $(el).text().trim()).get().join('\n\n'),
+        contentHtml: paragraphs.map((_, el) => $.html(el)).get().join('\n'),
+        extraction: { strategy: 'paragraphs', candidates },
+      };
     }
 
-    throw new Error('Could not extract sufficient content from the webpage');
+    throw new NotAnArticleError(pageUrl, 'no readable content block');
   }
 
   /**
@@ -312,11 +817,34 @@ export class WebScraper {
     return this.cleanText(text);
   }
 
+  /**
+   * Choose the lead image: the one the page declares for sharing, else the
+   * first large image in the article
+   */
+  private findLeadImage(declared: string | undefined, document: ArticleDocument): LeadImage | undefined {
+    const images = getImages(document);
+
+    if (declared) {
+      const inline = images.find(image => image.src === declared);
+      return { url: declared, alt: inline?.alt, caption: inline?.caption, source: 'metadata' };
+    }
+
+    const large = images.find(image => (image.width ?? LEAD_IMAGE_MIN_WIDTH) >= LEAD_IMAGE_MIN_WIDTH);
+    return large && { url: large.src, alt: large.alt, caption: large.caption, source: 'figure' };
+  }
+
+  /**
+   * Plain text of an HTML fragment via the document model
+   */
+  private documentText(html: string): string {
+    return this.cleanText(documentToPlainText(buildArticleDocument(html)));
+  }
+
   /**
    * Find the largest text blocks on the page
    */
-  private findLargestTextBlocks($: cheerio.CheerioAPI): string[] {
-    const textBlocks: Array<{ text: string; length: number }> = [];
+  private findLargestTextBlocks($: cheerio.CheerioAPI): Array<{ text: string; html: string }> {
+    const textBlocks: Array<{ text: string; html: string; length: number }> = [];
 
     $('div, section, article').each((_, element) => {
       const $element = $(element);
@@ -328,33 +856,28 @@ export class WebScraper {
 
       const text = this.extractTextFromElement($, $element);
       if (text.length > 100) {
-        textBlocks.push({ text, length: text.length });
+        textBlocks.push({ text, html: $.html($element), length: text.length });
       }
     });
 
     return textBlocks
       .sort((a, b) => b.length - a.length)
       .slice(0, 3)
-      .map(block => block.text);
+      .map(({ text, html }) => ({ text, html }));
   }
 
   /**
-   * Clean and normalize text content
+   * Clean and normalize text content, keeping all Unicode letters and punctuation
    */
   private cleanText(text: string): string {
-    return text
-      .replace(/\s+/g, ' ')                    // Replace multiple whitespace with single space
-      .replace(/\n+/g, '\n')                   // Replace multiple newlines with single newline
-      .replace(/\t+/g, ' ')                    // Replace tabs with spaces
-      .replace(/[^\x20-\x7E\n]/g, '')          // Remove non-printable characters except newlines
-      .trim();
+    return normalizeUnicodeText(text);
   }
 
   /**
    * Count words in text
    */
   private countWords(text: string): number {
-    return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+    return countWords(text);
   }
 
   /**
@@ -368,13 +891,6 @@ export class WebScraper {
       return false;
     }
   }
-
-  /**
-   * Delay execution for retry mechanism
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 // Export default scraper instance
@@ -0,0 +1,268 @@
+import * as cheerio from 'cheerio';
+import { normalizeUnicodeText } from './text-utils';
+
+export interface AdapterExtraction {
+  title?: string;
+  contentHtml?: string;
+  author?: string;
+  publishDate?: string;
+}
+
+export interface SiteAdapter {
+  name: string;
+  // Exact hosts ("dev.to" also matches "www.dev.to"), wildcard subdomains
+  // ("*.substack.com") or regular expressions tested against the hostname
+  hostPatterns: Array<string | RegExp>;
+  // Fallback detection for self-hosted installs on custom domains
+  detect?: ($: cheerio.CheerioAPI, url: URL) => boolean;
+  titleSelectors?: string[];
+  contentSelectors?: string[];
+  authorSelectors?: string[];
+  dateSelectors?: string[];
+  removeSelectors?: string[];
+  // Custom extraction; returned fields take precedence over selector results
+  extract?: ($: cheerio.CheerioAPI, url: URL) => AdapterExtraction | null;
+}
+
+export interface AdapterResult extends AdapterExtraction {
+  adapter: string;
+  html: string; // Page HTML after the adapter's cleanup selectors were applied
+}
+
+const MIN_CONTENT_LENGTH = 100;
+
+const BUILT_IN_ADAPTERS: SiteAdapter[] = [
+  {
+    name: 'medium',
+    hostPatterns: ['medium.com', '*.medium.com'],
+    detect: $ => $('meta[property="al:android:app_name"]').attr('content') === 'Medium',
+    titleSelectors: ['h1[data-testid="storyTitle"]', 'article h1'],
+    contentSelectors: ['article section', 'article'],
+    authorSelectors: ['a[data-testid="authorName"]', 'meta[name="author"]'],
+    dateSelectors: ['meta[property="article:published_time"]', 'span[data-testid="storyPublishDate"]'],
+    removeSelectors: [
+      '[data-testid="headerClapButton"]',
+      '[data-testid="audioPlayButton"]',
+      '.speechify-ignore',
+      '.pw-multi-vote-icon',
+      '.pw-responses-count',
+      'button',
+    ],
+  },
+  {
+    name: 'substack',
+    hostPatterns: ['*.substack.com'],
+    detect: $ => $('link[href*="substackcdn.com"], script[src*="substackcdn.com"]').length > 0,
+    titleSelectors: ['h1.post-title', 'h1'],
+    contentSelectors: ['.available-content .body.markup', '.body.markup'],
+    authorSelectors: ['meta[name="author"]', '.byline-names a', '.profile-hover-card-target a'],
+    dateSelectors: ['meta[property="article:published_time"]', '.post-date time[datetime]', '.post-date'],
+    removeSelectors: [
+      '.subscription-widget-wrap',
+      '.subscribe-widget',
+      '.paywall',
+      '.button-wrapper',
+      '.post-footer',
+      '.captioned-button-wrap',
+    ],
+  },
+  {
+    name: 'devto',
+    hostPatterns: ['dev.to'],
+    titleSelectors: ['#main-title h1', '.crayons-article__header h1'],
+    contentSelectors: ['#article-body', '.crayons-article__body'],
+    authorSelectors: ['meta[name="author"]', '.crayons-article__subheader a.crayons-link'],
+    dateSelectors: ['.crayons-article__subheader time[datetime]', 'time[datetime]'],
+    removeSelectors: ['.highlight__panel', '.article-actions', '.crayons-article__actions', '.ltag__user'],
+  },
+  {
+    name: 'hashnode',
+    hostPatterns: ['hashnode.com', '*.hashnode.dev'],
+    detect: $ => $('link[href*="cdn.hashnode.com"], meta[property="og:image"][content*="hashnode.com"]').length > 0,
+    titleSelectors: ['h1[data-query="post-title"]', 'article h1', 'h1'],
+    contentSelectors: ['#post-content-parent .prose', '#post-content-parent', 'article .prose'],
+    authorSelectors: ['meta[name="author"]', 'a[href^="/@"] span', '[data-query="author-name"]'],
+    dateSelectors: ['meta[property="article:published_time"]', 'time[datetime]'],
+    removeSelectors: ['#post-content-parent [class*="newsletter"]', '[class*="reaction"]'],
+  },
+  {
+    name: 'wordpress',
+    hostPatterns: ['*.wordpress.com'],
+    detect: $ =>
+      /wordpress/i.test($('meta[name="generator"]').attr('content') || '') ||
+      $('link[href*="/wp-content/"], script[src*="/wp-includes/"]').length > 0,
+    titleSelectors: ['h1.entry-title', '.wp-block-post-title', 'h1.post-title'],
+    contentSelectors: ['.entry-content', '.wp-block-post-content', '.post-content'],
+    authorSelectors: ['.author.vcard a', '.byline .author', 'a[rel="author"]', 'meta[name="author"]'],
+    dateSelectors: ['meta[property="article:published_time"]', 'time.entry-date[datetime]', '.published[datetime]', '.posted-on time'],
+    removeSelectors: ['.sharedaddy', '.jp-relatedposts', '#jp-post-flair', '.wpcnt', '.wp-block-buttons', '.post-navigation'],
+  },
+  {
+    name: 'blogger',
+    hostPatterns: ['*.blogspot.com', /^([\w-]+\.)*blogspot\.[a-z.]+$/, 'blogger.com'],
+    detect: $ => /blogger/i.test($('meta[name="generator"]').attr('content') || ''),
+    titleSelectors: ['h3.post-title', 'h1.post-title', '.post-title'],
+    contentSelectors: ['.post-body.entry-content', '.post-body'],
+    authorSelectors: ['.post-author .fn', '.post-author a', '.g-profile'],
+    dateSelectors: ['abbr.published', 'time.published[datetime]', '.date-header span'],
+    // .post-footer holds the byline, so only its share buttons go
+    removeSelectors: ['.post-share-buttons', '.blog-pager', '.comments'],
+  },
+];
+
+/**
+ * Registry of per-site extraction adapters keyed by hostname pattern.
+ * Adapters work on raw HTML and a URL only, so they can be exercised
+ * against saved pages without going through the network.
+ */
+export class SiteAdapterRegistry {
+  private adapters: SiteAdapter[];
+
+  constructor(adapters: SiteAdapter[] = []) {
+    this.adapters = [...adapters];
+  }
+
+  /**
+   * Register an adapter; later registrations take precedence over earlier ones
+   */
+  register(adapter: SiteAdapter): void {
+    this.unregister(adapter.name);
+    this.adapters.unshift(adapter);
+  }
+
+  /**
+   * Remove an adapter by name
+   */
+  unregister(name: string): boolean {
+    const before = this.adapters.length;
+    this.adapters = this.adapters.filter(adapter => adapter.name !== name);
+    return this.adapters.length < before;
+  }
+
+  /**
+   * List registered adapters in resolution order
+   */
+  list(): SiteAdapter[] {
+    return [...this.adapters];
+  }
+
+  /**
+   * Find the adapter for a page: hostname patterns first, then page detection
+   */
+  resolve($: cheerio.CheerioAPI, url: URL): SiteAdapter | null {
+    const hostname = url.hostname.toLowerCase();
+
+    const byHost = this.adapters.find(adapter =>
+      adapter.hostPatterns.some(pattern => this.matchesHost(hostname, pattern))
+    );
+    if (byHost) {
+      return byHost;
+    }
+
+    return this.adapters.find(adapter => {
+      try {
+        return adapter.detect?.($, url) ?? false;
+      } catch (error) {
+        console.warn(`Site adapter "${adapter.name}" detection failed:`, error);
+        return false;
+      }
+    }) ?? null;
+  }
+
+  /**
+   * Run the matching adapter against a page's HTML, or return null if no adapter applies
+   */
+  extract(html: string, pageUrl: string): AdapterResult | null {
+    const url = new URL(pageUrl);
+    const $ = cheerio.load(html);
+    const adapter = this.resolve($, url);
+
+    if (!adapter) {
+      return null;
+    }
+
+    if (adapter.removeSelectors?.length) {
+      $(adapter.removeSelectors.join(', ')).remove();
+    }
+
+    const result: AdapterResult = {
+      adapter: adapter.name,
+      html: $.html(),
+      title: this.readText($, adapter.titleSelectors),
+      contentHtml: this.readContent($, adapter.contentSelectors),
+      author: this.readText($, adapter.authorSelectors),
+      publishDate: this.readText($, adapter.dateSelectors),
+    };
+
+    if (adapter.extract) {
+      try {
+        const custom = adapter.extract($, url);
+        if (custom) {
+          for (const [key, value] of Object.entries(custom) as Array<[keyof AdapterExtraction, string | undefined]>) {
+            if (value) {
+              result[key] = value;
+            }
+          }
+        }
+      } catch (error) {
+        console.warn(`Site adapter "${adapter.name}" extraction failed:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Check a hostname against an exact, wildcard or regular-expression pattern
+   */
+  private matchesHost(hostname: string, pattern: string | RegExp): boolean {
+    if (pattern instanceof RegExp) {
+      return pattern.test(hostname);
+    }
+
+    const normalized = pattern.toLowerCase();
+    if (normalized.startsWith('*.')) {
+      return hostname.endsWith(normalized.slice(1));
+    }
+
+    return hostname === normalized || hostname === `www.${normalized}`;
+  }
+
+  /**
+   * First non-empty value from a list of selectors; reads content/datetime/title
+   * attributes before falling back to element text
+   */
+  private readText($: cheerio.CheerioAPI, selectors?: string[]): string | undefined {
+    for (const selector of selectors || []) {
+      const element = $(selector).first();
+      if (element.length === 0) continue;
+
+      const value = element.attr('content') ||
+                    element.attr('datetime') ||
+                    (element.is('abbr') ? element.attr('title') : undefined) ||
+                    element.text();
+      const text = normalizeUnicodeText(value || '');
+      if (text && text.length < 300) {
+        return text;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * HTML of the first content selector that holds enough text
+   */
+  private readContent($: cheerio.CheerioAPI, selectors?: string[]): string | undefined {
+    for (const selector of selectors || []) {
+      const element = $(selector).first();
+      if (element.length > 0 && normalizeUnicodeText(element.text()).length > MIN_CONTENT_LENGTH) {
+        return $.html(element);
+      }
+    }
+
+    return undefined;
+  }
+}
+
+export const siteAdapterRegistry = new SiteAdapterRegistry(BUILT_IN_ADAPTERS);
@@ -0,0 +1,93 @@
+/**
+ * Stop-word lists and content-term tokenizing for the offline summarizer
+ */
+
+const ENGLISH_STOP_WORDS = [
+  'a', 'about', 'above', 'across', 'after', 'again', 'against', 'all', 'along', 'also', 'am', 'among', 'an', 'and', 'any', 'are', 'around', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'done', 'down', 'during',
+  'each', 'either', 'else', 'even', 'ever', 'every', 'few', 'for', 'from', 'further',
+  'get', 'gets', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'however',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'let', 'like', 'made', 'make', 'many', 'may', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself',
+  'neither', 'no', 'nor', 'not', 'now', 'of', 'off', 'often', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own',
+  'per', 'quite', 'rather', 'really', 'said', 'same', 'say', 'says', 'she', 'should', 'since', 'so', 'some', 'still', 'such',
+  'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'thus', 'to', 'too',
+  'under', 'until', 'up', 'upon', 'us', 'use', 'used', 'using', 'very', 'was', 'we', 'well', 'were', 'what', 'when', 'where', 'whether', 'which', 'while', 'who', 'whom', 'whose', 'why', 'will', 'with', 'within', 'without', 'would',
+  'yet', 'you', 'your', 'yours', 'yourself', 'yourselves',
+  // Contraction fragments left over once apostrophes split words
+  's', 't', 'd', 'll', 're', 've', 'm', 'don', 'doesn', 'didn', 'isn', 'aren', 'wasn', 'weren', 'won', 'couldn', 'shouldn', 'wouldn',
+];
+
+// Postpositions, auxiliaries, pronouns and conjunctions of Urdu prose
+const URDU_STOP_WORDS = [
+  'ہے', 'ہیں', 'تھا', 'تھی', 'تھے', 'ہو', 'ہوا', 'ہوئی', 'ہوئے', 'ہوں', 'ہوتا', 'ہوتی', 'ہوتے', 'ہونا', 'ہونے', 'ہوگا', 'ہوگی', 'گا', 'گی', 'گے',
+  'کا', 'کی', 'کے', 'کو', 'سے', 'میں', 'پر', 'نے', 'تک', 'لیے', 'لئے', 'ساتھ', 'بعد', 'پہلے', 'طرف', 'بارے', 'ذریعے', 'والا', 'والی', 'والے',
+  'اور', 'یا', 'لیکن', 'مگر', 'بلکہ', 'کہ', 'اگر', 'تو', 'جب', 'تب', 'جبکہ', 'چونکہ', 'کیونکہ', 'تاکہ', 'ورنہ', 'پھر', 'بھی', 'ہی', 'نہ', 'نہیں', 'مت',
+  'یہ', 'وہ', 'یہی', 'وہی', 'اس', 'ان', 'اسے', 'انہیں', 'انہوں', 'اسی', 'انہی', 'جو', 'جس', 'جن', 'جنہوں', 'جسے', 'کون', 'کیا', 'کیوں', 'کیسے', 'کہاں', 'کب', 'کتنا', 'کتنی', 'کتنے',
+  'ہم', 'تم', 'آپ', 'مجھے', 'ہمیں', 'تمہیں', 'میرا', 'میری', 'میرے', 'ہمارا', 'ہماری', 'ہمارے', 'اپنا', 'اپنی', 'اپنے',
+  'کر', 'کرنا', 'کرنے', 'کرتا', 'کرتی', 'کرتے', 'کیے', 'کئے', 'کریں', 'کرے', 'رہا', 'رہی', 'رہے', 'گیا', 'گئی', 'گئے', 'جا', 'جاتا', 'جاتی', 'جاتے', 'جائے', 'سکتا', 'سکتی', 'سکتے', 'چاہیے', 'دیا', 'دی', 'دیے', 'لیا', 'لی',
+  'ایک', 'کچھ', 'سب', 'کئی', 'ہر', 'بہت', 'زیادہ', 'کم', 'اب', 'یہاں', 'وہاں', 'ایسا', 'ایسی', 'ایسے', 'ویسے', 'دوسرے', 'دوسری', 'جیسے', 'جیسا', 'طرح', 'بس', 'صرف',
+];
+
+// Roman Urdu, for Urdu written in Latin letters
+const ROMAN_URDU_STOP_WORDS = [
+  'hai', 'hain', 'tha', 'thi', 'thay', 'the', 'ho', 'hua', 'hui', 'hue', 'hota', 'hoti', 'hotay', 'ga', 'gi', 'ge',
+  'ka', 'ki', 'ke', 'ko', 'se', 'mein', 'main', 'par', 'pe', 'ne', 'tak', 'liye', 'sath', 'saath', 'baad', 'wala', 'wali', 'walay',
+  'aur', 'ya', 'lekin', 'magar', 'balke', 'keh', 'kay', 'agar', 'to', 'tou', 'jab', 'phir', 'bhi', 'hi', 'na', 'nahi', 'nahin',
+  'yeh', 'ye', 'woh', 'wo', 'is', 'us', 'in', 'un', 'jo', 'jis', 'kaun', 'kya', 'kyun', 'kaise', 'kahan', 'kab',
+  'hum', 'tum', 'aap', 'mera', 'meri', 'mere', 'hamara', 'apna', 'apni', 'apne',
+  'kar', 'karna', 'karne', 'karta', 'karti', 'karte', 'kiya', 'raha', 'rahi', 'rahe', 'gaya', 'gayi', 'gaye', 'sakta', 'sakti', 'sakte',
+  'ek', 'kuch', 'sab', 'har', 'bohat', 'bahut', 'ab', 'yahan', 'wahan', 'sirf',
+];
+
+const STOP_WORDS: Record<string, Set<string>> = {
+  en: new Set(ENGLISH_STOP_WORDS),
+  ur: new Set([...URDU_STOP_WORDS, ...ROMAN_URDU_STOP_WORDS].map(word => word.normalize('NFC'))),
+};
+
+// Undetermined text may be either. Roman Urdu is left out here: "main" and
+// "par" are content words in English.
+const ALL_STOP_WORDS = new Set([...ENGLISH_STOP_WORDS, ...URDU_STOP_WORDS.map(word => word.normalize('NFC'))]);
+
+/**
+ * Stop words for an ISO 639-1 code; other and undetermined languages get
+ * the English and Urdu-script lists together
+ */
+export function stopWordsFor(language?: string): Set<string> {
+  return (language && STOP_WORDS[language]) || ALL_STOP_WORDS;
+}
+
+/**
+ * Words of a text with stop words, numbers-only tokens and single letters
+ * removed, lowercased and (for Latin script) reduced to a rough stem so
+ * "markets" and "market" count as one term
+ */
+export function contentTerms(text: string, language?: string): string[] {
+  const stopWords = stopWordsFor(language);
+  const words: string[] = text.normalize('NFC').toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) || [];
+
+  return words
+    .filter(word => !stopWords.has(word) && /\p{L}/u.test(word) && word.length > 1)
+    .map(word => toTerm(word));
+}
+
+/**
+ * Comparison form of a single lowercased word
+ */
+export function toTerm(word: string): string {
+  return /^[a-z]+$/.test(word) ? stemEnglish(word) : word;
+}
+
+/**
+ * Strip the commonest English inflections; a light touch is enough for
+ * matching words between sentences
+ */
+function stemEnglish(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.endsWith('ing') && word.length > 6) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
+  if (word.endsWith('es') && /(ss|sh|ch|x)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us') && !word.endsWith('is')) return word.slice(0, -1);
+  return word;
+}
@@ -0,0 +1,485 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { normalizeUnicodeText } from './text-utils';
+
+export type MetadataSource = 'json-ld' | 'microdata' | 'opengraph' | 'twitter' | 'meta';
+
+export interface ArticleMetadata {
+  type?: string; // schema.org type, e.g. "BlogPosting"
+  headline?: string;
+  description?: string;
+  authors: string[];
+  datePublished?: string; // ISO 8601
+  dateModified?: string; // ISO 8601
+  publisher?: string;
+  section?: string;
+  keywords: string[];
+  language?: string; // BCP 47, e.g. "en-US"
+  image?: string; // Absolute URL
+  sources: MetadataSource[]; // Which markup contributed, in priority order
+}
+
+// Metadata found in one kind of markup, before merging
+type PartialMetadata = Partial<Omit<ArticleMetadata, 'sources'>>;
+
+// schema.org types describing an article-like creative work
+const ARTICLE_TYPES = new Set([
+  'article',
+  'blogposting',
+  'newsarticle',
+  'techarticle',
+  'scholarlyarticle',
+  'report',
+  'socialmediaposting',
+  'liveblogposting',
+  'opinionnewsarticle',
+  'analysisnewsarticle',
+  'reportagenewsarticle',
+  'reviewnewsarticle',
+  'backgroundnewsarticle',
+]);
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Extract article metadata from JSON-LD, microdata, Open Graph, Twitter Card
+ * and plain meta tags. Earlier sources win field by field.
+ */
+export function extractStructuredMetadata($: cheerio.CheerioAPI, pageUrl: string): ArticleMetadata {
+  const layers: Array<[MetadataSource, PartialMetadata]> = [
+    ['json-ld', extractJsonLd($, pageUrl)],
+    ['microdata', extractMicrodata($, pageUrl)],
+    ['opengraph', extractOpenGraph($, pageUrl)],
+    ['twitter', extractTwitterCard($, pageUrl)],
+    ['meta', extractMetaTags($)],
+  ];
+
+  const merged: ArticleMetadata = { authors: [], keywords: [], sources: [] };
+  const scalarFields = [
+    'type', 'headline', 'description', 'datePublished', 'dateModified',
+    'publisher', 'section', 'language', 'image',
+  ] as const;
+
+  for (const [source, layer] of layers) {
+    let contributed = false;
+
+    for (const field of scalarFields) {
+      if (!merged[field] && layer[field]) {
+        merged[field] = layer[field];
+        contributed = true;
+      }
+    }
+
+    if (merged.authors.length === 0 && layer.authors?.length) {
+      merged.authors = layer.authors;
+      contributed = true;
+    }
+    if (merged.keywords.length === 0 && layer.keywords?.length) {
+      merged.keywords = layer.keywords;
+      contributed = true;
+    }
+
+    if (contributed) {
+      merged.sources.push(source);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Parse a human or machine date ("2024-03-05T10:00:00+05:00",
+ * "Published on March 5th, 2024") into an ISO 8601 timestamp
+ */
+export function parseDate(value: string | undefined | null): string | undefined {
+  if (!value) return undefined;
+
+  const cleaned = normalizeUnicodeText(String(value))
+    .replace(/^(published|posted|updated|last updated|modified|date)\s*(on|at)?\s*:?\s*/i, '')
+    .replace(/\b(\d{1,2})(st|nd|rd|th)\b/gi, '$1')
+    .replace(/\s+at\s+/i, ' ')
+    .trim();
+  if (!cleaned) return undefined;
+
+  // Bare Unix timestamps (seconds or milliseconds)
+  const timestamp = /^\d{10}(\d{3})?$/.test(cleaned)
+    ? Number(cleaned) * (cleaned.length === 10 ? 1000 : 1)
+    : Date.parse(cleaned);
+  if (isNaN(timestamp)) return undefined;
+
+  // Reject values that cannot be an article date
+  const year = new Date(timestamp).getUTCFullYear();
+  if (year < 1990 || timestamp > Date.now() + 24 * 60 * 60 * 1000) return undefined;
+
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Read schema.org Article data from <script type="application/ld+json"> blocks
+ */
+function extractJsonLd($: cheerio.CheerioAPI, pageUrl: string): PartialMetadata {
+  const nodes: JsonLdNode[] = [];
+
+  $('script[type="application/ld+json"]').each((_, script) => {
+    const data = parseJsonLd($(script).text());
+    if (data !== undefined) {
+      collectNodes(data, nodes);
+    }
+  });
+
+  // Index by @id so references like { "@id": "#/schema/person/1" } resolve
+  const byId = new Map<string, JsonLdNode>();
+  nodes.forEach(node => {
+    if (typeof node['@id'] === 'string') byId.set(node['@id'], node);
+  });
+  const deref = (value: unknown): unknown => {
+    const node = asNode(value);
+    if (node && typeof node['@id'] === 'string' && Object.keys(node).length === 1) {
+      return byId.get(node['@id']) ?? value;
+    }
+    return value;
+  };
+
+  const article = nodes.find(node => getTypes(node).some(type => ARTICLE_TYPES.has(type.toLowerCase())));
+  if (!article) {
+    return {};
+  }
+
+  const authors = toArray(article.author ?? article.creator)
+    .map(deref)
+    .map(author => typeof author === 'string' ? author : textValue(asNode(author)?.name))
+    .filter((name): name is string => Boolean(name));
+
+  const publisher = deref(article.publisher ?? article.sourceOrganization);
+  const language = deref(article.inLanguage);
+
+  return {
+    type: getTypes(article).find(type => ARTICLE_TYPES.has(type.toLowerCase())),
+    headline: textValue(article.headline ?? article.name),
+    description: textValue(article.description ?? article.abstract),
+    authors: unique(authors),
+    datePublished: parseDate(textValue(article.datePublished ?? article.dateCreated)),
+    dateModified: parseDate(textValue(article.dateModified)),
+    publisher: typeof publisher === 'string' ? cleanValue(publisher) : textValue(asNode(publisher)?.name),
+    section: textValue(toArray(article.articleSection)[0]),
+    keywords: splitKeywords(toArray(article.keywords).map(textValue)),
+    language: normalizeLanguage(
+      typeof language === 'string' ? language : textValue(asNode(language)?.alternateName ?? asNode(language)?.name)
+    ),
+    image: resolveUrl(imageUrl(deref(toArray(article.image)[0]) ?? article.thumbnailUrl), pageUrl),
+  };
+}
+
+/**
+ * Read schema.org Article data from microdata (itemscope/itemprop)
+ */
+function extractMicrodata($: cheerio.CheerioAPI, pageUrl: string): PartialMetadata {
+  const scope = $('[itemscope][itemtype]')
+    .filter((_, element) => ARTICLE_TYPES.has(schemaTypeName($(element).attr('itemtype')).toLowerCase()))
+    .first();
+  if (scope.length === 0) {
+    return {};
+  }
+
+  const root = scope[0];
+  // Properties of this item, not of items nested inside it
+  const props = (name: string) => scope
+    .find(`[itemprop~="${name}"]`)
+    .filter((_, element) => $(element).parent().closest('[itemscope]')[0] === root);
+  const value = (name: string) => {
+    const element = props(name).first();
+    return element.length > 0 ? itemValue($, element[0]) : undefined;
+  };
+  const nestedName = (element: Element) => $(element).attr('itemscope') !== undefined
+    ? cleanValue($(element).find('[itemprop~="name"]').first().attr('content') || $(element).find('[itemprop~="name"]').first().text())
+    : itemValue($, element);
+
+  const authors = props('author').toArray().map(nestedName).filter((name): name is string => Boolean(name));
+  const publisher = props('publisher').first();
+  const image = props('image').first();
+
+  return {
+    type: schemaTypeName(scope.attr('itemtype')),
+    headline: value('headline') ?? value('name'),
+    description: value('description'),
+    authors: unique(authors),
+    datePublished: parseDate(value('datePublished') ?? value('dateCreated')),
+    dateModified: parseDate(value('dateModified')),
+    publisher: publisher.length > 0 ? nestedName(publisher[0]) : undefined,
+    section: value('articleSection'),
+    keywords: splitKeywords([value('keywords')]),
+    language: normalizeLanguage(value('inLanguage')),
+    image: resolveUrl(
+      image.length > 0 && image.attr('itemscope') !== undefined
+        ? itemValue($, image.find('[itemprop~="url"], [itemprop~="contentUrl"]').first()[0])
+        : image.length > 0 ? itemValue($, image[0]) : undefined,
+      pageUrl
+    ),
+  };
+}
+
+/**
+ * Read Open Graph and article:* properties
+ */
+function extractOpenGraph($: cheerio.CheerioAPI, pageUrl: string): PartialMetadata {
+  const property = (name: string) => cleanValue($(`meta[property="${name}"]`).first().attr('content'));
+  const all = (name: string) => $(`meta[property="${name}"]`)
+    .map((_, meta) => cleanValue($(meta).attr('content')))
+    .get()
+    .filter((value): value is string => Boolean(value));
+
+  // article:author is often a profile URL rather than a name
+  const authors = all('article:author').filter(author => !/^https?:\/\//i.test(author));
+  const ogType = property('og:type');
+
+  return {
+    type: ogType === 'article' ? 'Article' : undefined,
+    headline: property('og:title'),
+    description: property('og:description'),
+    authors: unique(authors),
+    datePublished: parseDate(property('article:published_time')),
+    dateModified: parseDate(property('article:modified_time') ?? property('og:updated_time')),
+    publisher: property('og:site_name'),
+    section: property('article:section'),
+    keywords: splitKeywords(all('article:tag')),
+    language: normalizeLanguage(property('og:locale')),
+    image: resolveUrl(property('og:image:secure_url') ?? property('og:image') ?? property('og:image:url'), pageUrl),
+  };
+}
+
+/**
+ * Read Twitter Card tags (including Yoast's "Written by" label/data pair)
+ */
+function extractTwitterCard($: cheerio.CheerioAPI, pageUrl: string): PartialMetadata {
+  const tag = (name: string) => cleanValue(
+    $(`meta[name="${name}"]`).first().attr('content') || $(`meta[property="${name}"]`).first().attr('content')
+  );
+
+  const authors: string[] = [];
+  for (const index of [1, 2, 3]) {
+    if (/written by|author/i.test(tag(`twitter:label${index}`) || '')) {
+      const author = tag(`twitter:data${index}`);
+      if (author) authors.push(author);
+    }
+  }
+
+  return {
+    headline: tag('twitter:title'),
+    description: tag('twitter:description'),
+    authors,
+    image: resolveUrl(tag('twitter:image') ?? tag('twitter:image:src'), pageUrl),
+  };
+}
+
+/**
+ * Read plain <meta name> tags, Dublin Core and the document language
+ */
+function extractMetaTags($: cheerio.CheerioAPI): PartialMetadata {
+  const meta = (...names: string[]) => {
+    for (const name of names) {
+      const value = cleanValue($(`meta[name="${name}" i]`).first().attr('content'));
+      if (value) return value;
+    }
+    return undefined;
+  };
+
+  const author = meta('author', 'dc.creator', 'parsely-author', 'sailthru.author');
+
+  return {
+    headline: meta('parsely-title', 'dc.title'),
+    description: meta('description', 'dc.description'),
+    authors: author ? [author] : [],
+    datePublished: parseDate(meta('date', 'dc.date.issued', 'dc.date', 'parsely-pub-date', 'pubdate', 'publish-date')),
+    dateModified: parseDate(meta('last-modified', 'dc.date.modified')),
+    publisher: meta('publisher', 'dc.publisher', 'application-name'),
+    section: meta('parsely-section', 'section'),
+    keywords: splitKeywords([meta('keywords', 'news_keywords', 'parsely-tags')]),
+    language: normalizeLanguage(
+      $('html').attr('lang') || $('meta[http-equiv="content-language" i]').attr('content') || meta('language', 'dc.language')
+    ),
+  };
+}
+
+/**
+ * Parse a JSON-LD block, tolerating HTML comment/CDATA wrappers and raw
+ * newlines inside strings that some CMSs emit
+ */
+function parseJsonLd(text: string): unknown {
+  const cleaned = text
+    .trim()
+    .replace(/^<!--|-->$/g, '')
+    .replace(/^\/\*<!\[CDATA\[\*\/|\/\*\]\]>\*\/$/g, '')
+    .trim();
+  if (!cleaned) return undefined;
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    try {
+      return JSON.parse(cleaned.replace(/[\r\n\t]+/g, ' '));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Flatten arrays, @graph containers and nested entities into a node list
+ */
+function collectNodes(value: unknown, nodes: JsonLdNode[], depth: number = 0): void {
+  if (depth > 6) return;
+
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes, depth + 1));
+    return;
+  }
+
+  const node = asNode(value);
+  if (!node) return;
+
+  if (node['@type'] || node['@id']) {
+    nodes.push(node);
+  }
+  if (node['@graph']) {
+    collectNodes(node['@graph'], nodes, depth + 1);
+  }
+  // WebPage → mainEntity: Article
+  if (node.mainEntity && typeof node.mainEntity === 'object') {
+    collectNodes(node.mainEntity, nodes, depth + 1);
+  }
+}
+
+/**
+ * @type values of a JSON-LD node, without vocabulary prefixes
+ */
+function getTypes(node: JsonLdNode): string[] {
+  return toArray(node['@type'])
+    .filter((type): type is string => typeof type === 'string')
+    .map(schemaTypeName);
+}
+
+/**
+ * "https://schema.org/BlogPosting" or "schema:BlogPosting" → "BlogPosting"
+ */
+function schemaTypeName(value: string | undefined): string {
+  return (value || '').trim().split(/\s+/)[0].split(/[/:#]/).pop() || '';
+}
+
+/**
+ * Value of a microdata property per the HTML spec (content, href, src, datetime, text)
+ */
+function itemValue($: cheerio.CheerioAPI, element: AnyNode | undefined): string | undefined {
+  if (!element) return undefined;
+
+  const $element = $(element);
+  const tag = ($element.prop('tagName') || '').toLowerCase();
+  const attribute = $element.attr('content') ??
+    (['a', 'link', 'area'].includes(tag) ? $element.attr('href') : undefined) ??
+    (['img', 'audio', 'video', 'source', 'embed', 'iframe'].includes(tag) ? $element.attr('src') : undefined) ??
+    (tag === 'time' ? $element.attr('datetime') : undefined) ??
+    (['data', 'meter'].includes(tag) ? $element.attr('value') : undefined);
+
+  return cleanValue(attribute ?? $element.text());
+}
+
+/**
+ * URL of a JSON-LD image value (string, ImageObject or array of either)
+ */
+function imageUrl(value: unknown): string | undefined {
+  const first = toArray(value)[0];
+  if (typeof first === 'string') return first;
+  const image = asNode(first);
+  return image ? textValue(image.url ?? image.contentUrl) : undefined;
+}
+
+/**
+ * Keywords from comma-separated strings or lists, de-duplicated
+ */
+function splitKeywords(values: Array<string | undefined>): string[] {
+  const keywords = values
+    .filter((value): value is string => Boolean(value))
+    .flatMap(value => value.split(/[,;]/))
+    .map(keyword => keyword.trim())
+    .filter(keyword => keyword.length > 0 && keyword.length <= 80);
+
+  return unique(keywords);
+}
+
+/**
+ * "en_US" → "en-US"; rejects values that are not language tags
+ */
+function normalizeLanguage(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const tag = value.trim().split(/[\s,]/)[0].replace(/_/g, '-');
+  if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(tag)) return undefined;
+
+  const [language, ...rest] = tag.split('-');
+  return [language.toLowerCase(), ...rest.map(part => part.length === 2 ? part.toUpperCase() : part)].join('-');
+}
+
+/**
+ * String value of a JSON-LD literal ("text", 42, { "@value": "text" })
+ */
+function textValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return cleanValue(value);
+  if (typeof value === 'number') return String(value);
+  const node = asNode(value);
+  return node && '@value' in node ? textValue(node['@value']) : undefined;
+}
+
+/**
+ * Decode entities some CMSs leave in metadata and normalize whitespace
+ */
+function cleanValue(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const decoded = /&(#\d+|#x[0-9a-f]+|[a-z]+);|</i.test(value)
+    ? cheerio.load(value, null, false).root().text()
+    : value;
+  const cleaned = normalizeUnicodeText(decoded);
+
+  return cleaned || undefined;
+}
+
+/**
+ * Resolve a possibly relative URL against the page; undefined for non-http(s)
+ */
+function resolveUrl(value: string | undefined, base: string): string | undefined {
+  if (!value) return undefined;
+
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A JSON-LD value as an object node, or undefined for literals and arrays
+ */
+function asNode(value: unknown): JsonLdNode | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as JsonLdNode : undefined;
+}
+
+/**
+ * Wrap single values in an array; drop null/undefined
+ */
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * De-duplicate strings case-insensitively, keeping the first spelling
+ */
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -1,45 +1,104 @@
-import { cohereService, SummaryResult } from './cohere';
+import { cohereService, SummaryResult, SectionSummary, SummaryOptions } from './cohere';
+import { getListItems, type ArticleDocument } from './document-model';
+import { normalizeUnicodeText, detectScript, splitSentences, countWords } from './text-utils';
+import {
+  DEFAULT_SUMMARY_PREFERENCES,
+  formatExtractiveSummary,
+  targetSize,
+  type SummaryPreferences,
+} from './summary-options';
+import { detectLanguage } from './language-detection';
+import { rankSentences, selectSentences, type RankedSentence } from './textrank';
+import { extractKeywords, type Keyword } from './keywords';
+import { contentTerms } from './stop-words';
+import { groundSummary } from './grounding';
 
 /**
- * Generate comprehensive summary of blog content using AI
+ * Generate comprehensive summary of blog content using AI. The extractive
+ * fallback can only quote the article, so it stays in the source language.
+ * Either way every sentence is checked against the content.
  */
-export async function generateSummary(content: string): Promise<SummaryResult> {
+export async function generateSummary(
+  content: string,
+  document?: ArticleDocument,
+  options: SummaryOptions = {}
+): Promise<SummaryResult> {
   if (!content?.trim()) {
     throw new Error('Content is required for summarization');
   }
 
+  let result: SummaryResult;
   try {
-    return await cohereService.generateSummary(content);
+    result = await cohereService.generateSummary(content, document, options);
   } catch (error) {
     console.warn('AI summarization failed, falling back to extractive method:', error);
-    return generateExtractiveSummary(content);
+    result = generateExtractiveSummary(content, document, options.preferences, options.keywords);
   }
+
+  const grounding = groundSummary(result.summary, result.keyPoints, content, {
+    sourceLanguage: options.sourceLanguage,
+    summaryLanguage: result.strategy === 'extractive' ? options.sourceLanguage : options.outputLanguage,
+  });
+  if (grounding.unsupportedCount > 0) {
+    console.warn(`Summary has ${grounding.unsupportedCount} sentence(s) or key point(s) the source does not support`);
+  }
+
+  return { ...result, grounding };
 }
 
 /**
- * Generate summary using extractive technique (fallback method)
+ * Generate summary using extractive technique (fallback method): the most
+ * central sentences of the article's similarity graph, without repeats
  */
-export function generateExtractiveSummary(content: string): SummaryResult {
+export function generateExtractiveSummary(
+  content: string,
+  document?: ArticleDocument,
+  preferences: SummaryPreferences = DEFAULT_SUMMARY_PREFERENCES,
+  keywords?: Keyword[]
+): SummaryResult {
   if (!content?.trim()) {
     throw new Error('Content is required for summarization');
   }
 
   const cleanContent = preprocessContent(content);
-  const sentences = extractSentences(cleanContent);
-  const scoredSentences = scoreSentences(sentences);
-  
-  // Select top sentences for summary
-  const selectedSentences = selectTopSentences(scoredSentences, sentences.length);
-  const summary = selectedSentences.map(item => item.sentence).join('. ') + '.';
+  // Sentences come block by block when the structure is known, so headings
+  // and table rows are not run into them
+  const proseSentences = document ? documentSentences(document) : [];
+  const sentences = proseSentences.length > 0
+    ? proseSentences.map(item => item.sentence)
+    : extractSentences(cleanContent);
+  const language = detectLanguage(cleanContent).language;
+
+  // Short articles give at most 30% of their sentences, whatever the target
+  const count = Math.min(targetSize(preferences).sentences, Math.max(1, Math.ceil(sentences.length * 0.3)));
+  const ranked = rankSentences(sentences, { language });
+  const selectedSentences = selectSentences(ranked, count, { language });
+  const terminator = detectScript(cleanContent).script === 'arabic' ? '۔' : '.';
+  // Q&A asks each sentence's section heading as its question
+  const summary = formatExtractiveSummary(
+    selectedSentences.map(item => item.sentence),
+    preferences,
+    terminator,
+    selectedSentences.map(item => (preferences.format === 'qa' ? proseSentences[item.index]?.heading : undefined))
+  );
   
   // Extract key points using different strategy
-  const keyPoints = extractKeyPoints(content, sentences);
+  const keyPoints = extractKeyPoints(
+    content,
+    ranked,
+    language,
+    keywords ?? extractKeywords(cleanContent, { language }),
+    document
+  );
 
   return {
     summary: summary || 'Unable to generate summary from provided content.',
     keyPoints,
+    sections: document ? summarizeSections(document, terminator, language) : undefined,
     wordCount: countWords(cleanContent),
     originalLength: cleanContent.length,
+    strategy: 'extractive',
+    chunkCount: 1,
   };
 }
 
@@ -47,9 +106,11 @@ export function generateExtractiveSummary(content: string): SummaryResult {
  * Preprocess content for better analysis
  */
 function preprocessContent(content: string): string {
-  return content
+  // Keep letters, marks and digits from every script plus common Latin,
+  // Urdu/Arabic and typographic punctuation; drop symbols and emoji
+  return normalizeUnicodeText(content)
+    .replace(/[^\p{L}\p{M}\p{N}\s.,!?;:()[\]{}'"\u2018\u2019\u201C\u201D\u2013\u2014\u060C\u061B\u061F\u06D4\u0964\u0965-]/gu, '')
     .replace(/\s+/g, ' ')
-    .replace(/[^\w\s.,!?;:()[\]{}'"]/g, '')
     .trim();
 }
 
@@ -57,94 +118,38 @@ function preprocessContent(content: string): string {
  * Extract and filter sentences from content
  */
 function extractSentences(content: string): string[] {
-  return content
-    .split(/[.!?]+/)
-    .map(sentence => sentence.trim())
+  return splitSentences(content)
     .filter(sentence => sentence.length > 15 && sentence.split(/\s+/).length >= 3);
 }
 
-/**
- * Score sentences based on importance indicators
- */
-function scoreSentences(sentences: string[]): Array<{ sentence: string; score: number; index: number }> {
-  const importantTerms = new Set([
-    'important', 'significant', 'key', 'main', 'primary', 'essential', 'crucial',
-    'major', 'fundamental', 'critical', 'vital', 'necessary', 'therefore',
-    'however', 'moreover', 'furthermore', 'consequently', 'result', 'conclusion',
-    'summary', 'findings', 'discovered', 'research', 'study', 'analysis',
-    'data', 'evidence', 'shows', 'reveals', 'indicates', 'suggests',
-    'demonstrates', 'proves', 'according', 'expert', 'study', 'report'
-  ]);
-
-  return sentences.map((sentence, index) => {
-    let score = 0;
-    const words = sentence.toLowerCase().split(/\s+/);
-    const wordCount = words.length;
-
-    // Position scoring (beginning and end are often important)
-    if (index < sentences.length * 0.2) score += 3;
-    if (index > sentences.length * 0.8) score += 2;
-
-    // Length scoring (prefer moderate length sentences)
-    if (wordCount >= 10 && wordCount <= 30) score += 2;
-    else if (wordCount >= 8 && wordCount <= 35) score += 1;
-
-    // Important terms scoring
-    const lowerSentence = sentence.toLowerCase();
-    importantTerms.forEach(term => {
-      if (lowerSentence.includes(term)) score += 1;
-    });
-
-    // Penalize sentences with too many numbers or special characters
-    const numberMatches = sentence.match(/\d+/g)?.length || 0;
-    const specialCharMatches = sentence.match(/[()[\]{}]/g)?.length || 0;
-    
-    if (numberMatches > 3) score -= 1;
-    if (specialCharMatches > 2) score -= 1;
-
-    // Bonus for sentences with multiple important terms
-    const importantTermCount = Array.from(importantTerms)
-      .filter(term => lowerSentence.includes(term)).length;
-    if (importantTermCount >= 2) score += 1;
-
-    return { sentence, score, index };
-  });
-}
-
-/**
- * Select top sentences while maintaining original order
- */
-function selectTopSentences(
-  scoredSentences: Array<{ sentence: string; score: number; index: number }>,
-  totalSentences: number
-): Array<{ sentence: string; score: number; index: number }> {
-  const maxSentences = Math.min(5, Math.ceil(totalSentences * 0.3));
-  
-  return scoredSentences
-    .sort((a, b) => b.score - a.score)
-    .slice(0, maxSentences)
-    .sort((a, b) => a.index - b.index);
-}
-
 /**
  * Extract key points from content using multiple strategies
  */
-function extractKeyPoints(content: string, sentences: string[]): string[] {
+function extractKeyPoints(
+  content: string,
+  ranked: RankedSentence[],
+  language: string,
+  keywords: Keyword[],
+  document?: ArticleDocument
+): string[] {
   const keyPoints: string[] = [];
   
-  // Strategy 1: Look for existing bullet points or numbered lists
-  const bulletPoints = extractBulletPoints(content);
+  // Strategy 1: Use the article's own list items, or guess at bullets in flat text
+  const bulletPoints = document ? getListItems(document) : extractBulletPoints(content);
   keyPoints.push(...bulletPoints);
   
-  // Strategy 2: Find sentences with key indicators
+  // Strategy 2: Find sentences carrying the article's key phrases
   if (keyPoints.length < 3) {
-    const keywordSentences = findKeywordSentences(sentences);
+    const keywordSentences = findKeywordSentences(ranked.map(item => item.sentence), keywords, language);
     keyPoints.push(...keywordSentences);
   }
   
-  // Strategy 3: Use top-scored sentences as fallback
+  // Strategy 3: Use the most central sentences as fallback
   if (keyPoints.length === 0) {
-    const topSentences = sentences.slice(0, 3);
+    const topSentences = [...ranked]
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, 3)
+      .map(item => item.sentence);
     keyPoints.push(...topSentences);
   }
   
@@ -153,6 +158,47 @@ function extractKeyPoints(content: string, sentences: string[]): string[] {
     .slice(0, 5);
 }
 
+/**
+ * Summarize each headed section with its most central sentence
+ */
+function summarizeSections(document: ArticleDocument, terminator: string, language: string): SectionSummary[] | undefined {
+  const headedSections = document.sections.filter(section => section.heading);
+  if (headedSections.length < 2) {
+    return undefined;
+  }
+
+  const sectionSummaries: SectionSummary[] = [];
+
+  for (const section of headedSections) {
+    const text = section.blocks
+      .map(block => (block.type === 'paragraph' || block.type === 'quote' ? block.text : ''))
+      .join(' ');
+    const sentences = extractSentences(preprocessContent(text));
+    if (sentences.length === 0) {
+      continue;
+    }
+
+    const [best] = selectSentences(rankSentences(sentences, { language }), 1, { language });
+    sectionSummaries.push({ heading: section.heading!, summary: best.sentence + terminator });
+  }
+
+  return sectionSummaries.length > 0 ? sectionSummaries : undefined;
+}
+
+/**
+ * Sentences of the article's paragraphs and quotes, with the heading of the
+ * section each one is in
+ */
+function documentSentences(document: ArticleDocument): Array<{ sentence: string; heading?: string }> {
+  return document.sections.flatMap(section =>
+    section.blocks.flatMap(block =>
+      block.type === 'paragraph' || block.type === 'quote'
+        ? extractSentences(preprocessContent(block.text)).map(sentence => ({ sentence, heading: section.heading }))
+        : []
+    )
+  );
+}
+
 /**
  * Extract existing bullet points from content
  */
@@ -177,25 +223,20 @@ function extractBulletPoints(content: string): string[] {
 }
 
 /**
- * Find sentences containing key indicators
+ * Sentences covering the most keyword weight, in article order
  */
-function findKeywordSentences(sentences: string[]): string[] {
-  const keyIndicators = [
-    'key', 'important', 'main', 'significant', 'essential', 'crucial',
-    'primary', 'major', 'fundamental', 'critical'
-  ];
-  
+function findKeywordSentences(sentences: string[], keywords: Keyword[], language: string): string[] {
   return sentences
-    .filter(sentence => {
-      const lower = sentence.toLowerCase();
-      return keyIndicators.some(indicator => lower.includes(indicator));
+    .map((sentence, index) => {
+      const terms = new Set(contentTerms(sentence, language));
+      const score = keywords
+        .filter(keyword => keyword.terms.every(term => terms.has(term)))
+        .reduce((sum, keyword) => sum + keyword.score, 0);
+      return { sentence, index, score };
     })
-    .slice(0, 3);
-}
-
-/**
- * Count words in text
- */
-function countWords(text: string): number {
-  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, 3)
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.sentence);
 }
@@ -0,0 +1,198 @@
+/**
+ * Per-request summary length, style and format, shared by the AI prompts
+ * and the extractive fallback
+ */
+
+export const SUMMARY_LENGTHS = ['one-liner', 'short', 'medium', 'detailed'] as const;
+export const SUMMARY_STYLES = ['neutral', 'executive', 'tldr', 'tweet', 'study-notes'] as const;
+export const SUMMARY_FORMATS = ['paragraph', 'bullets', 'qa'] as const;
+
+export type SummaryLengthPreset = typeof SUMMARY_LENGTHS[number];
+export type SummaryStyle = typeof SUMMARY_STYLES[number];
+export type SummaryFormat = typeof SUMMARY_FORMATS[number];
+
+export interface SummaryPreferences {
+  length: SummaryLengthPreset | number; // A preset or a target word count
+  style: SummaryStyle;
+  format: SummaryFormat;
+}
+
+export const DEFAULT_SUMMARY_PREFERENCES: SummaryPreferences = {
+  length: 'medium',
+  style: 'neutral',
+  format: 'paragraph',
+};
+
+export const MIN_TARGET_WORDS = 10;
+export const MAX_TARGET_WORDS = 1000;
+
+// Tweets are capped in characters, whatever the length setting
+const TWEET_MAX_CHARACTERS = 280;
+
+const LENGTH_TARGETS: Record<SummaryLengthPreset, { words: number; sentences: number; description: string }> = {
+  'one-liner': { words: 30, sentences: 1, description: 'a single sentence' },
+  short: { words: 60, sentences: 3, description: '2-3 sentences' },
+  medium: { words: 120, sentences: 5, description: '3-5 sentences' },
+  detailed: { words: 300, sentences: 10, description: '2-3 paragraphs (about 250-350 words)' },
+};
+
+const STYLE_INSTRUCTIONS: Record<SummaryStyle, string> = {
+  neutral: 'Use a neutral, factual tone',
+  executive: 'Write an executive brief: lead with the bottom line, then the implications and any decisions or actions it calls for',
+  tldr: 'Write a TL;DR: plain, casual language giving only the gist',
+  tweet: `Make it tweet-sized: at most ${TWEET_MAX_CHARACTERS} characters in total, no hashtags`,
+  'study-notes': 'Write study notes: the key concepts, definitions and facts a student should remember',
+};
+
+const FORMAT_INSTRUCTIONS: Record<SummaryFormat, string> = {
+  paragraph: 'Write the summary as flowing prose',
+  bullets: 'Write the summary as a bulleted list, one "- " bullet per line',
+  qa: 'Write the summary as question-and-answer pairs, each question on a line starting with "Q: " and its answer on the next line starting with "A: "',
+};
+
+export class InvalidSummaryOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSummaryOptionsError';
+  }
+}
+
+/**
+ * Validate summary options from an API request; missing fields take their
+ * defaults. A numeric (or numeric string) length is a target word count.
+ */
+export function parseSummaryPreferences(input: unknown): SummaryPreferences {
+  if (input === undefined || input === null) {
+    return { ...DEFAULT_SUMMARY_PREFERENCES };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new InvalidSummaryOptionsError('Summary options must be an object with length, style and/or format');
+  }
+
+  const { length, style, format } = input as Record<string, unknown>;
+  const preferences = { ...DEFAULT_SUMMARY_PREFERENCES };
+
+  if (length !== undefined && length !== '') {
+    const words = typeof length === 'number' ? length : /^\d+$/.test(String(length)) ? Number(length) : NaN;
+    if (Number.isFinite(words)) {
+      if (!Number.isInteger(words) || words < MIN_TARGET_WORDS || words > MAX_TARGET_WORDS) {
+        throw new InvalidSummaryOptionsError(`Summary length in words must be a whole number from ${MIN_TARGET_WORDS} to ${MAX_TARGET_WORDS}`);
+      }
+      preferences.length = words;
+    } else if (SUMMARY_LENGTHS.includes(length as SummaryLengthPreset)) {
+      preferences.length = length as SummaryLengthPreset;
+    } else {
+      throw new InvalidSummaryOptionsError(`Invalid summary length (expected one of: ${SUMMARY_LENGTHS.join(', ')}, or a word count)`);
+    }
+  }
+
+  if (style !== undefined && style !== '') {
+    if (!SUMMARY_STYLES.includes(style as SummaryStyle)) {
+      throw new InvalidSummaryOptionsError(`Invalid summary style (expected one of: ${SUMMARY_STYLES.join(', ')})`);
+    }
+    preferences.style = style as SummaryStyle;
+  }
+
+  if (format !== undefined && format !== '') {
+    if (!SUMMARY_FORMATS.includes(format as SummaryFormat)) {
+      throw new InvalidSummaryOptionsError(`Invalid summary format (expected one of: ${SUMMARY_FORMATS.join(', ')})`);
+    }
+    preferences.format = format as SummaryFormat;
+  }
+
+  return preferences;
+}
+
+/**
+ * Stable identifier of a set of preferences ("medium/neutral/paragraph"),
+ * used to tell stored variants of the same article apart
+ */
+export function preferencesKey(preferences: SummaryPreferences): string {
+  return `${preferences.length}/${preferences.style}/${preferences.format}`;
+}
+
+/**
+ * Target size of the summary in words and sentences
+ */
+export function targetSize(preferences: SummaryPreferences): { words: number; sentences: number } {
+  if (typeof preferences.length === 'number') {
+    // Extractive sentences run about 20 words
+    return { words: preferences.length, sentences: Math.max(1, Math.round(preferences.length / 20)) };
+  }
+
+  const { words, sentences } = LENGTH_TARGETS[preferences.length];
+  return { words, sentences };
+}
+
+/**
+ * Prompt lines describing the requested length, style and format
+ */
+export function describePreferences(preferences: SummaryPreferences): { summary: string; style: string; format: string } {
+  const length = typeof preferences.length === 'number'
+    ? `about ${preferences.length} words`
+    : LENGTH_TARGETS[preferences.length].description;
+
+  return {
+    summary: `Create a summary of ${length} that captures the main message`,
+    style: STYLE_INSTRUCTIONS[preferences.style],
+    format: FORMAT_INSTRUCTIONS[preferences.format],
+  };
+}
+
+/**
+ * Output token allowance for a summary of the requested size, with room
+ * for the key points
+ */
+export function outputTokenBudget(preferences: SummaryPreferences): number {
+  return Math.min(4000, Math.max(1000, targetSize(preferences).words * 3 + 400));
+}
+
+/**
+ * Lay out extracted sentences in the requested style and format. `questions`
+ * pairs sentences with section headings for Q&A; sentences without one are
+ * listed as bullets.
+ */
+export function formatExtractiveSummary(
+  sentences: string[],
+  preferences: SummaryPreferences,
+  terminator: string,
+  questions: Array<string | undefined> = []
+): string {
+  const finished = sentences.map(sentence => (/[.!?\u06D4\u061F]$/.test(sentence) ? sentence : sentence + terminator));
+  let summary: string;
+
+  switch (preferences.format) {
+    case 'bullets':
+      summary = finished.map(sentence => `- ${sentence}`).join('\n');
+      break;
+    case 'qa': {
+      // Consecutive sentences under the same heading answer one question
+      const lines: string[] = [];
+      finished.forEach((sentence, index) => {
+        const question = questions[index];
+        if (!question) {
+          lines.push(`- ${sentence}`);
+        } else if (index > 0 && question === questions[index - 1]) {
+          lines[lines.length - 1] += ` ${sentence}`;
+        } else {
+          lines.push(`Q: ${question}${/[?\u061F]$/.test(question) ? '' : '?'}\nA: ${sentence}`);
+        }
+      });
+      summary = lines.join('\n');
+      break;
+    }
+    default:
+      summary = finished.join(' ');
+  }
+
+  if (preferences.style === 'tldr') {
+    summary = preferences.format === 'paragraph' ? `TL;DR: ${summary}` : `TL;DR:\n${summary}`;
+  }
+
+  if (preferences.style === 'tweet' && summary.length > TWEET_MAX_CHARACTERS) {
+    const cut = summary.slice(0, TWEET_MAX_CHARACTERS - 1);
+    summary = `${cut.slice(0, Math.max(cut.lastIndexOf(' '), 1))}…`;
+  }
+
+  return summary;
+}
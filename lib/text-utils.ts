@@ -0,0 +1,175 @@
+/**
+ * Unicode-aware text normalization and script detection utilities
+ */
+
+export type WritingScript =
+  | 'latin'
+  | 'arabic'
+  | 'devanagari'
+  | 'bengali'
+  | 'gurmukhi'
+  | 'cyrillic'
+  | 'greek'
+  | 'hebrew'
+  | 'han'
+  | 'kana'
+  | 'hangul'
+  | 'thai'
+  | 'unknown';
+
+export interface ScriptDetection {
+  script: WritingScript;
+  confidence: number; // share of letters in the dominant script, 0-1
+  direction: 'ltr' | 'rtl';
+  breakdown: Partial<Record<WritingScript, number>>;
+}
+
+export interface SentenceSpan {
+  text: string; // Trimmed, with its terminators
+  start: number; // Character offsets of `text` in the split text
+  end: number;
+}
+
+// Script patterns checked in order; each letter is attributed to the first match
+const SCRIPT_PATTERNS: Array<{ script: Exclude<WritingScript, 'unknown'>; pattern: RegExp }> = [
+  { script: 'latin', pattern: /\p{Script=Latin}/u },
+  { script: 'arabic', pattern: /\p{Script=Arabic}/u },
+  { script: 'devanagari', pattern: /\p{Script=Devanagari}/u },
+  { script: 'bengali', pattern: /\p{Script=Bengali}/u },
+  { script: 'gurmukhi', pattern: /\p{Script=Gurmukhi}/u },
+  { script: 'cyrillic', pattern: /\p{Script=Cyrillic}/u },
+  { script: 'greek', pattern: /\p{Script=Greek}/u },
+  { script: 'hebrew', pattern: /\p{Script=Hebrew}/u },
+  { script: 'han', pattern: /\p{Script=Han}/u },
+  { script: 'kana', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u },
+  { script: 'hangul', pattern: /\p{Script=Hangul}/u },
+  { script: 'thai', pattern: /\p{Script=Thai}/u },
+];
+
+const RTL_SCRIPTS = new Set<WritingScript>(['arabic', 'hebrew']);
+
+// Zero-width and formatting characters that carry no visible content.
+// ZWNJ (U+200C) and ZWJ (U+200D) are kept because Urdu and Persian
+// orthography depends on them for correct letter joining.
+const INVISIBLE_CHARACTERS = /[\u00AD\u061C\u180E\u200B\u200E\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+// Control characters other than tab, newline and carriage return
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g;
+
+// Unicode space separators (NBSP, en/em spaces, ideographic space, ...)
+const SPACE_SEPARATORS = /[\u00A0\u1680\u2000-\u200A\u202F\u205F\u3000]/g;
+
+// Sentence terminators across the scripts we handle, including the Urdu
+// full stop (۔), Arabic question mark (؟), Devanagari danda (।) and CJK stops
+export const SENTENCE_TERMINATORS = /[.!?\u06D4\u061F\u0964\u0965\u3002\uFF01\uFF1F]+/;
+
+// A sentence together with its terminators, or the unterminated tail. A
+// period before a digit is a decimal point, not the end of a sentence.
+const TERMINATED_SENTENCE = /(?:[^.!?\u06D4\u061F\u0964\u0965\u3002\uFF01\uFF1F]|\.(?=\d))+(?:[.!?\u06D4\u061F\u0964\u0965\u3002\uFF01\uFF1F]+|$)/g;
+
+const TRAILING_TERMINATORS = new RegExp(`(?:${SENTENCE_TERMINATORS.source})$`);
+
+/**
+ * Normalize text to NFC, drop invisible/control characters and unify
+ * whitespace without touching non-ASCII letters or punctuation
+ */
+export function normalizeUnicodeText(text: string, options: { preserveNewlines?: boolean } = {}): string {
+  if (!text || typeof text !== 'string') return '';
+
+  const normalized = text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(INVISIBLE_CHARACTERS, '')
+    .replace(CONTROL_CHARACTERS, '')
+    .replace(SPACE_SEPARATORS, ' ')
+    .replace(/[\u2028\u2029]/g, '\n');
+
+  if (!options.preserveNewlines) {
+    return normalized.replace(/\s+/g, ' ').trim();
+  }
+
+  return normalized
+    .replace(/[ \t]+/g, ' ')                 // Collapse horizontal whitespace
+    .replace(/ *\n */g, '\n')                // Trim spaces around line breaks
+    .replace(/\n{3,}/g, '\n\n')              // Keep at most one blank line
+    .trim();
+}
+
+/**
+ * Detect the dominant writing script of a text by counting letters
+ */
+export function detectScript(text: string): ScriptDetection {
+  const breakdown: Partial<Record<WritingScript, number>> = {};
+  let totalLetters = 0;
+
+  for (const char of text || '') {
+    if (!/\p{L}/u.test(char)) continue;
+    totalLetters++;
+
+    const match = SCRIPT_PATTERNS.find(({ pattern }) => pattern.test(char));
+    const script: WritingScript = match ? match.script : 'unknown';
+    breakdown[script] = (breakdown[script] || 0) + 1;
+  }
+
+  if (totalLetters === 0) {
+    return { script: 'unknown', confidence: 0, direction: 'ltr', breakdown: {} };
+  }
+
+  let dominant: WritingScript = 'unknown';
+  let dominantCount = 0;
+  for (const [script, count] of Object.entries(breakdown) as Array<[WritingScript, number]>) {
+    if (count > dominantCount) {
+      dominant = script;
+      dominantCount = count;
+    }
+  }
+
+  // Report shares rather than raw counts
+  for (const script of Object.keys(breakdown) as WritingScript[]) {
+    breakdown[script] = Number(((breakdown[script] || 0) / totalLetters).toFixed(3));
+  }
+
+  return {
+    script: dominant,
+    confidence: Number((dominantCount / totalLetters).toFixed(3)),
+    direction: RTL_SCRIPTS.has(dominant) ? 'rtl' : 'ltr',
+    breakdown,
+  };
+}
+
+/**
+ * Split text into sentences using script-aware terminators, which are
+ * dropped unless `keepTerminators` is set
+ */
+export function splitSentences(text: string, options: { keepTerminators?: boolean } = {}): string[] {
+  const sentences = sentenceSpans(text).map(({ text: sentence }) =>
+    options.keepTerminators ? sentence : sentence.replace(TRAILING_TERMINATORS, '').trim()
+  );
+
+  return sentences.filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Split text into sentences like `splitSentences`, keeping terminators and
+ * where each sentence sits in the text
+ */
+export function sentenceSpans(text: string): SentenceSpan[] {
+  const spans: SentenceSpan[] = [];
+
+  for (const match of text.matchAll(TERMINATED_SENTENCE)) {
+    const sentence = match[0].trim();
+    if (!sentence) continue;
+
+    const start = match.index! + match[0].length - match[0].trimStart().length;
+    spans.push({ text: sentence, start, end: start + sentence.length });
+  }
+
+  return spans;
+}
+
+/**
+ * Count words in text regardless of script
+ */
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
@@ -0,0 +1,234 @@
+/**
+ * Unsupervised extractive summarizing: sentences are nodes of a similarity
+ * graph scored with PageRank (LexRank or TextRank edge weights), then picked
+ * with maximal marginal relevance so the summary does not repeat itself.
+ * Runs offline and gives the same result for the same input.
+ */
+
+import { contentTerms } from './stop-words';
+
+export type RankingMethod = 'lexrank' | 'textrank';
+
+export interface RankedSentence {
+  sentence: string;
+  index: number; // Position in the input
+  score: number; // Centrality, normalized so the best sentence scores 1
+}
+
+export interface SentenceRankOptions {
+  language?: string; // ISO 639-1 code, for stop words
+  method?: RankingMethod; // Default 'lexrank'
+  diversity?: number; // 0-1, how strongly MMR penalizes overlap with chosen sentences (default 0.3)
+}
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const CONVERGENCE = 1e-6;
+// LexRank edges weaker than this are noise from shared common words
+const LEXRANK_THRESHOLD = 0.1;
+// The graph compares every pair of sentences, so only the sentences closest
+// to the document's overall vocabulary take part in long articles
+const MAX_GRAPH_SENTENCES = 300;
+
+type TermVector = Map<string, number>;
+
+/**
+ * Score every sentence by its centrality in the similarity graph; results
+ * are in input order, and sentences left out of the graph score 0
+ */
+export function rankSentences(sentences: string[], options: SentenceRankOptions = {}): RankedSentence[] {
+  const vectors = buildVectors(sentences, options.language);
+  return scoreSentences(sentences, vectors, options.method ?? 'lexrank');
+}
+
+/**
+ * Pick up to `count` sentences of a ranking from `rankSentences` that are
+ * central but not redundant with each other, returned in input order
+ */
+export function selectSentences(ranked: RankedSentence[], count: number, options: SentenceRankOptions = {}): RankedSentence[] {
+  const vectors = buildVectors(ranked.map(item => item.sentence), options.language);
+  const diversity = Math.min(1, Math.max(0, options.diversity ?? 0.3));
+
+  const selected: RankedSentence[] = [];
+  // Sentences left out of the graph are not candidates either
+  const remaining = new Set(ranked.filter(item => item.score > 0).map(item => item.index));
+
+  while (selected.length < count && remaining.size > 0) {
+    let best: RankedSentence | null = null;
+    let bestValue = -Infinity;
+
+    // Ascending index order, so ties go to the earlier sentence
+    for (const index of remaining) {
+      const redundancy = selected.reduce((max, chosen) => Math.max(max, cosine(vectors[index], vectors[chosen.index])), 0);
+      const value = (1 - diversity) * ranked[index].score - diversity * redundancy;
+      if (value > bestValue) {
+        best = ranked[index];
+        bestValue = value;
+      }
+    }
+
+    selected.push(best!);
+    remaining.delete(best!.index);
+  }
+
+  return selected.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * TF-IDF vectors of the sentences, with document frequency counted over the
+ * sentences themselves
+ */
+function buildVectors(sentences: string[], language?: string): TermVector[] {
+  const termLists = sentences.map(sentence => contentTerms(sentence, language));
+  const documentFrequency = new Map<string, number>();
+
+  for (const terms of termLists) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return termLists.map(terms => {
+    const vector: TermVector = new Map();
+    for (const term of terms) {
+      vector.set(term, (vector.get(term) || 0) + 1);
+    }
+    for (const [term, frequency] of vector) {
+      vector.set(term, frequency * Math.log(1 + sentences.length / documentFrequency.get(term)!));
+    }
+    return vector;
+  });
+}
+
+/**
+ * Weighted PageRank over the sentence similarity graph
+ */
+function scoreSentences(sentences: string[], vectors: TermVector[], method: RankingMethod): RankedSentence[] {
+  const count = sentences.length;
+  if (count === 0) {
+    return [];
+  }
+
+  const nodes = graphCandidates(vectors);
+  const size = nodes.length;
+
+  // Sparse graph: most sentence pairs share no terms
+  const incoming: Array<Array<[number, number]>> = nodes.map(() => []);
+  const outgoing = new Array<number>(size).fill(0);
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      const weight = edgeWeight(vectors[nodes[i]], vectors[nodes[j]], method);
+      if (weight > 0) {
+        incoming[i].push([j, weight]);
+        incoming[j].push([i, weight]);
+        outgoing[i] += weight;
+        outgoing[j] += weight;
+      }
+    }
+  }
+
+  let scores = new Array<number>(size).fill(1 / size);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Sentences linked to nothing spread their score evenly
+    const dangling = scores.reduce((sum, score, i) => (outgoing[i] === 0 ? sum + score : sum), 0);
+    const next = incoming.map(edges => {
+      const received = edges.reduce((sum, [i, weight]) => sum + (weight / outgoing[i]) * scores[i], 0);
+      return (1 - DAMPING) / size + DAMPING * (received + dangling / size);
+    });
+
+    const change = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+    scores = next;
+    if (change < CONVERGENCE) {
+      break;
+    }
+  }
+
+  const top = scores.reduce((max, score) => Math.max(max, score), 0);
+  const nodeScores = new Array<number>(count).fill(0);
+  nodes.forEach((index, node) => {
+    nodeScores[index] = top > 0 ? scores[node] / top : 0;
+  });
+
+  return sentences.map((sentence, index) => ({
+    sentence,
+    index,
+    score: nodeScores[index],
+  }));
+}
+
+/**
+ * Indexes of the sentences that make up the graph, in input order: all of
+ * them, or in long articles those most similar to the document centroid
+ */
+function graphCandidates(vectors: TermVector[]): number[] {
+  const indexes = vectors.map((_, index) => index);
+  if (vectors.length <= MAX_GRAPH_SENTENCES) {
+    return indexes;
+  }
+
+  const centroid: TermVector = new Map();
+  for (const vector of vectors) {
+    for (const [term, weight] of vector) {
+      centroid.set(term, (centroid.get(term) || 0) + weight);
+    }
+  }
+
+  const similarity = vectors.map(vector => cosine(vector, centroid));
+  return indexes
+    .sort((a, b) => similarity[b] - similarity[a] || a - b)
+    .slice(0, MAX_GRAPH_SENTENCES)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Weight of the edge between two sentences; zero means no edge
+ */
+function edgeWeight(a: TermVector, b: TermVector, method: RankingMethod): number {
+  if (method === 'textrank') {
+    return overlap(a, b);
+  }
+
+  const similarity = cosine(a, b);
+  return similarity >= LEXRANK_THRESHOLD ? similarity : 0;
+}
+
+/**
+ * Cosine similarity of two TF-IDF vectors
+ */
+function cosine(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) || 0);
+  }
+  if (dot === 0) {
+    return 0;
+  }
+
+  return dot / (norm(a) * norm(b));
+}
+
+/**
+ * Euclidean length of a vector
+ */
+function norm(vector: TermVector): number {
+  let sum = 0;
+  for (const weight of vector.values()) {
+    sum += weight * weight;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * TextRank similarity: shared terms, discounted for long sentences
+ */
+function overlap(a: TermVector, b: TermVector): number {
+  let shared = 0;
+  for (const term of a.keys()) {
+    if (b.has(term)) shared++;
+  }
+  if (shared === 0) {
+    return 0;
+  }
+
+  return shared / (Math.log(a.size + 1) + Math.log(b.size + 1));
+}
@@ -1,4 +1,5 @@
 import { cohereService, TranslationResult } from './cohere';
+import { detectLanguage } from './language-detection';
 
 // Comprehensive English to Urdu dictionary for fallback translation
 const ENGLISH_URDU_DICTIONARY: Record<string, string> = {
@@ -93,15 +94,21 @@ const ENGLISH_URDU_DICTIONARY: Record<string, string> = {
 };
 
 /**
- * Translate English text to Urdu using AI with dictionary fallback
+ * Translate text to Urdu using AI with dictionary fallback. Text already in
+ * Urdu script is returned unchanged.
  */
 export async function translateToUrdu(text: string): Promise<string> {
   if (!text?.trim()) {
     throw new Error('Text is required for translation');
   }
 
+  const sourceLanguage = detectSourceLanguage(text);
+  if (!sourceLanguage) {
+    return text;
+  }
+
   try {
-    const result = await cohereService.translateWithRetry(text);
+    const result = await cohereService.translateWithRetry(text, sourceLanguage);
     return result.translatedText;
   } catch (error) {
     console.warn('AI translation failed, falling back to dictionary method:', error);
@@ -131,8 +138,13 @@ export async function getTranslationResult(text: string): Promise<TranslationRes
     throw new Error('Text is required for translation');
   }
 
+  const sourceLanguage = detectSourceLanguage(text);
+  if (!sourceLanguage) {
+    return { originalText: text, translatedText: text, language: 'urdu', confidence: 1 };
+  }
+
   try {
-    return await cohereService.translateWithRetry(text);
+    return await cohereService.translateWithRetry(text, sourceLanguage);
   } catch (error) {
     console.warn('AI translation failed, using dictionary fallback:', error);
     return {
@@ -173,6 +185,18 @@ export function isUrduText(text: string): boolean {
   return totalChars > 0 && (urduCharCount / totalChars) > 0.3;
 }
 
+/**
+ * Language code to pass to the translator, or null when the text is already
+ * Urdu in Urdu script. Undetermined text is treated as English.
+ */
+function detectSourceLanguage(text: string): string | null {
+  const { language, script } = detectLanguage(text);
+  if (language === 'ur' && script === 'arabic') {
+    return null;
+  }
+  return language === 'und' ? 'en' : language;
+}
+
 /**
  * Preprocess text for better dictionary translation
  */
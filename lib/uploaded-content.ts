@@ -0,0 +1,456 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { webScraper, type ScrapedContent, type SourceType } from './scraper';
+import { markdownToHtml, textToHtml } from './pasted-content';
+import { decodeBody } from './charset';
+import { normalizeUnicodeText } from './text-utils';
+import type JSZip from 'jszip';
+
+export type UploadedFileType = 'pdf' | 'docx' | 'epub' | 'markdown' | 'text';
+
+export interface UploadedFile {
+  name: string; // Original file name, e.g. "annual-report.pdf"
+  data: Buffer;
+  mimeType?: string; // As reported by the browser; only used as a hint
+  title?: string;
+}
+
+// What was uploaded, kept with the summary
+export interface FileInfo {
+  name: string;
+  type: UploadedFileType;
+  mimeType: string;
+  size: number;
+  hash: string; // SHA-256 of the file bytes
+  pageCount?: number; // PDF pages, or DOCX pages as last saved by the editor
+  chapterCount?: number; // EPUB chapters
+}
+
+interface ExtractedFile {
+  html: string;
+  title?: string; // From the file's own metadata
+  pageCount?: number;
+  chapterCount?: number;
+}
+
+export class UnsupportedFileError extends Error {
+  constructor(readonly fileName: string) {
+    super(`Unsupported file type: ${fileName} (expected PDF, DOCX, EPUB, Markdown or plain text)`);
+    this.name = 'UnsupportedFileError';
+  }
+}
+
+export class FileExtractionError extends Error {
+  constructor(readonly fileName: string, message: string, readonly cause?: unknown) {
+    super(`Could not read ${fileName}: ${message}`);
+    this.name = 'FileExtractionError';
+  }
+}
+
+const FILE_EXTENSIONS: Record<string, UploadedFileType> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.epub': 'epub',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.text': 'text',
+};
+
+const MIME_TYPES: Record<UploadedFileType, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  epub: 'application/epub+zip',
+  markdown: 'text/markdown',
+  text: 'text/plain',
+};
+
+// Upper bound on the decompressed contents of DOCX and EPUB containers, so a
+// zip bomb cannot exhaust memory
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Extract an uploaded PDF, DOCX, EPUB, Markdown or text file into the same
+ * shape the scraper produces for URLs. Pages and chapters become sections.
+ */
+export async function prepareUploadedFile(file: UploadedFile): Promise<ScrapedContent> {
+  if (file.data.length === 0) {
+    throw new FileExtractionError(file.name, 'the file is empty');
+  }
+
+  const type = detectFileType(file.name, file.data, file.mimeType);
+  if (!type) {
+    throw new UnsupportedFileError(file.name);
+  }
+
+  let extracted: ExtractedFile;
+  try {
+    extracted = await extractFile(type, file.data);
+  } catch (error) {
+    throw new FileExtractionError(file.name, error instanceof Error ? error.message : String(error), error);
+  }
+
+  if (!cheerio.load(extracted.html).root().text().trim()) {
+    // Scanned PDFs are images of text; OCR is out of scope
+    throw new FileExtractionError(file.name, 'the file contains no extractable text');
+  }
+
+  const hash = createHash('sha256').update(file.data).digest('hex');
+  const sourceType: SourceType = type;
+  const scraped = webScraper.buildFromArticleHtml(extracted.html, `file:${hash}`, '', sourceType);
+
+  const title = normalizeUnicodeText(file.title || '') ||
+                normalizeUnicodeText(extracted.title || '') ||
+                scraped.document?.sections.find(section => section.heading)?.heading ||
+                titleFromFileName(file.name);
+
+  return {
+    ...scraped,
+    title,
+    sourceLabel: file.name,
+    file: {
+      name: file.name,
+      type,
+      mimeType: MIME_TYPES[type],
+      size: file.data.length,
+      hash,
+      pageCount: extracted.pageCount,
+      chapterCount: extracted.chapterCount,
+    },
+  };
+}
+
+/**
+ * Work out the file type from its leading bytes, falling back to the
+ * extension and then the browser-reported MIME type for text formats
+ */
+export function detectFileType(name: string, data: Buffer, mimeType?: string): UploadedFileType | null {
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'pdf';
+  }
+
+  const extension = path.extname(name).toLowerCase();
+
+  // DOCX and EPUB are both ZIP containers; EPUB stores its MIME type uncompressed up front
+  if (data.subarray(0, 4).toString('latin1') === 'PK\u0003\u0004') {
+    if (data.subarray(30, 58).toString('latin1') === 'mimetypeapplication/epub+zip') {
+      return 'epub';
+    }
+    return extension === '.epub' || extension === '.docx' ? FILE_EXTENSIONS[extension] : null;
+  }
+
+  const byExtension = FILE_EXTENSIONS[extension];
+  if (byExtension === 'markdown' || byExtension === 'text') {
+    return byExtension;
+  }
+
+  if (!extension && mimeType) {
+    if (/^text\/(x-)?markdown\b/i.test(mimeType)) return 'markdown';
+    if (/^text\/plain\b/i.test(mimeType)) return 'text';
+  }
+
+  return null;
+}
+
+/**
+ * Convert a file to article HTML. Parsers are loaded on demand, so only
+ * uploads pay for them.
+ */
+async function extractFile(type: UploadedFileType, data: Buffer): Promise<ExtractedFile> {
+  switch (type) {
+    case 'pdf':
+      return extractPdf(data);
+    case 'docx':
+      return extractDocx(data);
+    case 'epub':
+      return extractEpub(data);
+    case 'markdown':
+      return { html: markdownToHtml(decodeText(data)) };
+    case 'text':
+      return { html: textToHtml(decodeText(data)) };
+  }
+}
+
+/**
+ * PDF: the text of each page, its blocks tagged with the page number
+ */
+async function extractPdf(data: Buffer): Promise<ExtractedFile> {
+  const { getDocumentProxy, extractText, getMeta } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const { info } = await getMeta(pdf).catch(() => ({ info: {} as Record<string, unknown> }));
+
+  const html = text
+    .map((pageText, index) => {
+      // Rejoin words hyphenated across line breaks
+      const body = textToHtml(pageText.replace(/(\p{L})-\n(?=\p{Ll})/gu, '$1'));
+      return body ? `<div data-page="${index + 1}">\n${body}\n</div>` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+
+  return {
+    html,
+    title: typeof info.Title === 'string' ? info.Title : undefined,
+    pageCount: totalPages,
+  };
+}
+
+/**
+ * DOCX: headings, paragraphs, lists and tables via mammoth; title and page
+ * count from the document properties Word saves alongside
+ */
+async function extractDocx(data: Buffer): Promise<ExtractedFile> {
+  const { default: mammoth } = await import('mammoth');
+  const zip = await openZip(data);
+
+  // Inflate each part once, within the budget, and hand mammoth the parts
+  // stored uncompressed so it has nothing left to inflate
+  const { default: JSZipLoader } = await import('jszip');
+  const parts = new JSZipLoader();
+  const budget = { remaining: MAX_UNCOMPRESSED_BYTES };
+  for (const entry of Object.values(zip.files)) {
+    if (!entry.dir) {
+      parts.file(entry.name, await inflateEntry(entry, budget));
+    }
+  }
+
+  const result = await mammoth.convertToHtml({ buffer: await parts.generateAsync({ type: 'nodebuffer', compression: 'STORE' }) });
+
+  const core = await parts.file('docProps/core.xml')?.async('string');
+  const app = await parts.file('docProps/app.xml')?.async('string');
+  const pages = Number(app?.match(/<Pages>(\d+)<\/Pages>/)?.[1]);
+
+  return {
+    html: result.value,
+    title: core ? cheerio.load(core, { xmlMode: true })('dc\\:title').first().text() : undefined,
+    pageCount: pages > 0 ? pages : undefined,
+  };
+}
+
+/**
+ * EPUB: chapters in reading (spine) order, each headed by its table of
+ * contents entry
+ */
+async function extractEpub(data: Buffer): Promise<ExtractedFile> {
+  const zip = await openZip(data);
+  const budget = { remaining: MAX_UNCOMPRESSED_BYTES };
+
+  const readEntry = async (entryPath: string): Promise<string | undefined> => {
+    const entry = zip.file(entryPath);
+    return entry ? (await inflateEntry(entry, budget)).toString('utf8') : undefined;
+  };
+
+  const container = await readEntry('META-INF/container.xml');
+  const packagePath = container && cheerio.load(container, { xmlMode: true })('rootfile').attr('full-path');
+  const packageXml = packagePath && await readEntry(packagePath);
+  if (!packagePath || !packageXml) {
+    throw new Error('the EPUB has no package document');
+  }
+
+  const $package = cheerio.load(packageXml, { xmlMode: true });
+  const packageDir = path.posix.dirname(packagePath);
+  const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+  $package('manifest > item').each((_, item) => {
+    const $item = $package(item);
+    manifest.set($item.attr('id') || '', {
+      href: resolveZipPath(packageDir, $item.attr('href') || ''),
+      mediaType: $item.attr('media-type') || '',
+      properties: $item.attr('properties') || '',
+    });
+  });
+
+  const tocLabels = await readTocLabels(manifest, $package('spine').attr('toc'), readEntry);
+
+  const chapters: string[] = [];
+  for (const itemref of $package('spine > itemref').toArray()) {
+    const $itemref = $package(itemref);
+    const item = manifest.get($itemref.attr('idref') || '');
+    if (!item || $itemref.attr('linear') === 'no' || !/html/.test(item.mediaType)) {
+      continue;
+    }
+
+    const xhtml = await readEntry(item.href);
+    if (!xhtml) continue;
+
+    const $chapter = cheerio.load(xhtml);
+    if (!normalizeUnicodeText($chapter('body').text())) {
+      continue; // Cover images, blank separators
+    }
+
+    const firstHeading = $chapter('body').find('h1, h2, h3').first();
+    const label = tocLabels.get(item.href) ||
+                  normalizeUnicodeText(firstHeading.text()) ||
+                  `Chapter ${chapters.length + 1}`;
+
+    // The chapter heading replaces the book's own copy of it
+    if (normalizeUnicodeText(firstHeading.text()) === label) {
+      firstHeading.remove();
+    }
+
+    chapters.push(`<h2>${escapeHtml(label)}</h2>\n${$chapter('body').html() || ''}`);
+  }
+
+  return {
+    html: chapters.join('\n'),
+    title: $package('metadata').children().filter((_, element) => element.tagName === 'dc:title').first().text(),
+    chapterCount: chapters.length,
+  };
+}
+
+/**
+ * Chapter titles by content document path, from the EPUB 3 navigation
+ * document or the EPUB 2 NCX
+ */
+async function readTocLabels(
+  manifest: Map<string, { href: string; mediaType: string; properties: string }>,
+  ncxId: string | undefined,
+  readEntry: (entryPath: string) => Promise<string | undefined>
+): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  const addLabel = (baseDir: string, href: string | undefined, label: string) => {
+    const target = href && resolveZipPath(baseDir, href.split('#')[0]);
+    const text = normalizeUnicodeText(label);
+    // The first entry for a file is the chapter; later ones are its subsections
+    if (target && text && !labels.has(target)) {
+      labels.set(target, text);
+    }
+  };
+
+  const nav = [...manifest.values()].find(item => item.properties.split(/\s+/).includes('nav'));
+  const navXml = nav && await readEntry(nav.href);
+  if (nav && navXml) {
+    const $nav = cheerio.load(navXml);
+    const toc = $nav('nav').filter((_, element) => $nav(element).attr('epub:type') === 'toc').first();
+    (toc.length ? toc : $nav('nav').first()).find('a[href]').each((_, link) => {
+      addLabel(path.posix.dirname(nav.href), $nav(link).attr('href'), $nav(link).text());
+    });
+    return labels;
+  }
+
+  const ncx = (ncxId && manifest.get(ncxId)) || [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+  const ncxXml = ncx && await readEntry(ncx.href);
+  if (ncx && ncxXml) {
+    const $ncx = cheerio.load(ncxXml, { xmlMode: true });
+    $ncx('navPoint').each((_, point) => {
+      const $point = $ncx(point);
+      addLabel(path.posix.dirname(ncx.href), $point.children('content').attr('src'), $point.children('navLabel').text());
+    });
+  }
+
+  return labels;
+}
+
+/**
+ * Resolve a (URL-encoded) href inside a ZIP container
+ */
+function resolveZipPath(baseDir: string, href: string): string {
+  let decoded = href;
+  try {
+    decoded = decodeURIComponent(href);
+  } catch {
+    // Keep the raw href
+  }
+  return path.posix.normalize(path.posix.join(baseDir, decoded)).replace(/^\.\//, '');
+}
+
+/**
+ * Load a ZIP container's directory, refusing archives whose entries declare
+ * more than MAX_UNCOMPRESSED_BYTES before anything is inflated
+ */
+async function openZip(data: Buffer): Promise<JSZip> {
+  if (declaredUncompressedSize(data) > MAX_UNCOMPRESSED_BYTES) {
+    throw new Error('the file is too large once decompressed');
+  }
+
+  const { default: JSZipLoader } = await import('jszip');
+  return JSZipLoader.loadAsync(data);
+}
+
+/**
+ * Sum of the uncompressed sizes in a ZIP's central directory, read straight
+ * from the bytes. ZIP64 archives count as unlimited: no document needs one.
+ */
+function declaredUncompressedSize(data: Buffer): number {
+  // The end of central directory record is 22 bytes plus a comment of up to 64 KiB
+  const lowest = Math.max(0, data.length - 22 - 0xffff);
+  for (let offset = data.length - 22; offset >= lowest; offset--) {
+    if (data.readUInt32LE(offset) !== 0x06054b50) continue;
+
+    const entries = data.readUInt16LE(offset + 10);
+    let position = data.readUInt32LE(offset + 16);
+    if (entries === 0xffff || position === 0xffffffff) {
+      return Infinity;
+    }
+
+    let total = 0;
+    for (let index = 0; index < entries; index++) {
+      // Damaged directories are left for JSZip to report
+      if (position + 46 > data.length || data.readUInt32LE(position) !== 0x02014b50) break;
+
+      const size = data.readUInt32LE(position + 24);
+      if (size === 0xffffffff) {
+        return Infinity;
+      }
+      total += size;
+      position += 46 + data.readUInt16LE(position + 28) + data.readUInt16LE(position + 30) + data.readUInt16LE(position + 32);
+    }
+    return total;
+  }
+
+  return 0;
+}
+
+/**
+ * Inflate a ZIP entry through a stream, charging its bytes to the archive's
+ * budget and stopping as soon as the budget runs out; the sizes a ZIP
+ * declares are not binding on what it inflates to
+ */
+function inflateEntry(entry: JSZip.JSZipObject, budget: { remaining: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    const chunks: Buffer[] = [];
+
+    stream.on('data', (chunk: Buffer) => {
+      budget.remaining -= chunk.length;
+      if (budget.remaining < 0) {
+        // Unread output backs up and JSZip stops inflating; the listeners
+        // stay so a late error from the abandoned entry is swallowed
+        stream.pause();
+        reject(new Error('the file is too large once decompressed'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Decode a text file, honouring a BOM and falling back to windows-1252
+ * for files that are not UTF-8
+ */
+function decodeText(data: Buffer): string {
+  return decodeBody(data, 'text/plain').text.replace(/\r\n?/g, '\n').trim();
+}
+
+/**
+ * "q3_board-report.final.pdf" → "q3 board report.final"
+ */
+function titleFromFileName(name: string): string {
+  return normalizeUnicodeText(path.basename(name, path.extname(name)).replace(/[_-]+/g, ' ')) || name;
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
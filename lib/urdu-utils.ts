@@ -296,6 +296,15 @@ export function validateUrduTranslation(
  */
 export function postProcessUrduTranslation(text: string): string {
   if (!text || typeof text !== 'string') return '';
+
+  // Bulleted and Q&A summaries keep one item per line
+  if (/\n/.test(text.trim())) {
+    return text
+      .split(/\n+/)
+      .map(line => postProcessUrduTranslation(line))
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
   
   let processed = normalizeUrduText(text);
   
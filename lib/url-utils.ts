@@ -0,0 +1,169 @@
+import * as cheerio from 'cheerio';
+import { getDomain } from 'tldts';
+
+// Query parameters that only track the visit and never change the content.
+// Generic names such as "ref", "source", "output" or "s" (WordPress search)
+// select different pages on some sites, so they are kept.
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gclsrc', 'msclkid', 'yclid', 'twclid', 'igshid', 'mc_cid', 'mc_eid',
+  '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'oly_anon_id', 'oly_enc_id', 'vero_id', 'wickedid',
+  'ref_src', 'cmpid', 'ncid', 'sr_share', 'smid', 'amp_js_v', 'amp_gsa', 'usqp',
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'hsa_', 'mtm_'];
+
+// Subdomains that serve a mobile/AMP copy of the main site
+const MIRROR_SUBDOMAINS = /^(m|mobile|amp|www)\./i;
+
+/**
+ * Normalize an article URL so that tracking, AMP and mobile variants of the
+ * same page compare equal. The result is an identity key, not necessarily a
+ * fetchable URL (www/m. prefixes are dropped and the scheme forced to https).
+ */
+export function normalizeUrl(input: string): string {
+  let url: URL;
+  try {
+    url = new URL(unwrapAmpCacheUrl(input.trim()));
+  } catch {
+    return input.trim();
+  }
+
+  // Identifiers such as "paste:<hash>" are already canonical
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return input.trim();
+  }
+
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+  url.hostname = stripMirrorSubdomain(url.hostname.toLowerCase());
+
+  if ((url.protocol === 'http:' && url.port === '80') || (url.protocol === 'https:' && url.port === '443')) {
+    url.port = '';
+  }
+  // Treat http and https as the same resource
+  url.protocol = 'https:';
+
+  for (const key of Array.from(url.searchParams.keys())) {
+    const lower = key.toLowerCase();
+    if (TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix))) {
+      url.searchParams.delete(key);
+    }
+  }
+  url.searchParams.sort();
+
+  url.pathname = stripAmpPath(url.pathname).replace(/\/{2,}/g, '/').replace(/\/+$/, '') || '/';
+
+  return url.toString();
+}
+
+/**
+ * Canonical URL of a page: <link rel="canonical"> (which AMP pages use to
+ * point at the regular article), then og:url, then the fetched URL itself;
+ * always returned in normalized form. A page can only name a canonical on
+ * its own site, or it could claim another site's articles.
+ */
+export function resolveCanonicalUrl($: cheerio.CheerioAPI, pageUrl: string): string {
+  const candidates = [
+    $('link[rel~="canonical"]').attr('href'),
+    $('meta[property="og:url"]').attr('content'),
+  ];
+
+  for (const candidate of candidates) {
+    const resolved = resolveCanonicalCandidate(candidate, pageUrl);
+    if (resolved && sameSite(resolved, pageUrl)) {
+      return resolved;
+    }
+  }
+
+  return normalizeUrl(pageUrl);
+}
+
+/**
+ * The page's own <link rel="canonical">, normalized, or undefined when it
+ * declares none. For HTML that was not fetched from a URL, where the base
+ * URL is only a hint for resolving relative links.
+ */
+export function declaredCanonicalUrl($: cheerio.CheerioAPI, baseUrl: string): string | undefined {
+  return resolveCanonicalCandidate($('link[rel~="canonical"]').attr('href'), baseUrl);
+}
+
+/**
+ * Resolve and normalize a canonical URL candidate; undefined for missing,
+ * non-http(s) or site-root values
+ */
+function resolveCanonicalCandidate(candidate: string | undefined, pageUrl: string): string | undefined {
+  if (!candidate) return undefined;
+
+  try {
+    const resolved = new URL(candidate.trim(), pageUrl);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return undefined;
+
+    // A canonical pointing at the site root from an article is a template bug
+    if (resolved.pathname.replace(/\/+$/, '') === '' && new URL(pageUrl).pathname.replace(/\/+$/, '') !== '') {
+      return undefined;
+    }
+
+    return normalizeUrl(resolved.toString());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether two URLs share a registrable domain; AMP cache URLs count as the
+ * publisher's site
+ */
+function sameSite(url: string, pageUrl: string): boolean {
+  const site = registrableDomain(url);
+  return site !== null && site === registrableDomain(unwrapAmpCacheUrl(pageUrl));
+}
+
+/**
+ * Registrable domain of a URL's host (example.co.uk, someone.github.io), or
+ * null for IP addresses, single-label hosts and invalid URLs
+ */
+function registrableDomain(url: string): string | null {
+  try {
+    return getDomain(new URL(url).hostname, { allowPrivateDomains: true });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Drop a www/m./amp. prefix, unless it is part of the registrable domain
+ * itself (amp.dev, m.tv)
+ */
+function stripMirrorSubdomain(hostname: string): string {
+  const stripped = hostname.replace(MIRROR_SUBDOMAINS, '');
+  if (stripped === hostname) {
+    return hostname;
+  }
+
+  const domain = getDomain(hostname, { allowPrivateDomains: true });
+  return domain !== null && domain === getDomain(stripped, { allowPrivateDomains: true }) ? stripped : hostname;
+}
+
+/**
+ * Turn Google AMP cache URLs (https://example-com.cdn.ampproject.org/c/s/example.com/post)
+ * back into publisher URLs
+ */
+function unwrapAmpCacheUrl(input: string): string {
+  const match = input.match(/^https?:\/\/[^/]+\.cdn\.ampproject\.org\/(?:[a-z]\/)*(s\/)?(.+)$/i);
+  if (!match) {
+    return input;
+  }
+
+  return `${match[1] ? 'https' : 'http'}://${match[2]}`;
+}
+
+/**
+ * Remove AMP path markers: /amp, /amp/ and .amp(.html) suffixes
+ */
+function stripAmpPath(pathname: string): string {
+  return pathname
+    .replace(/\/amp\/?$/i, '')
+    .replace(/^\/amp\//i, '/')
+    .replace(/\.amp(\.html?)?$/i, '$1');
+}
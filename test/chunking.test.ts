@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkText, estimateTokens, truncateToTokens } from '../lib/chunking';
+
+const PARAGRAPH = 'The harbour reopened on Monday. Repairs took three weeks! Will the wall hold this winter? ' +
+  'Officials think so\u06D4 The new wall is half a metre higher';
+
+describe('chunkText', () => {
+  it('cuts long paragraphs between sentences and keeps their terminators', () => {
+    const chunks = chunkText(PARAGRAPH, 12);
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => chunk.tokens <= 12));
+    assert.match(chunks[0].text, /^The harbour reopened on Monday\./);
+    assert.ok(chunks.some(chunk => chunk.text.includes('Officials think so\u06D4')));
+    assert.match(chunks[chunks.length - 1].text, /half a metre higher$/);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('returns text within the budget unchanged', () => {
+    assert.equal(truncateToTokens(PARAGRAPH, 1000), PARAGRAPH);
+  });
+
+  it('keeps the start of the text, cut between words', () => {
+    const summary = 'Part 1 of 9:\nThe harbour reopened.\n- Repairs took three weeks\n- The wall is higher';
+    const truncated = truncateToTokens(summary, 10);
+
+    assert.ok(estimateTokens(truncated) <= 10);
+    assert.ok(summary.startsWith(truncated));
+    assert.match(truncated, /^Part 1 of 9:\nThe harbour/);
+    assert.doesNotMatch(truncated, /\s$/);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Db } from 'mongodb';
+import { DocumentFrequencyService, type CorpusArticle } from '../lib/document-frequencies';
+
+type Row = Record<string, unknown>;
+type Filter = Record<string, unknown>;
+
+/**
+ * Whether a row matches a filter of plain values, $in, $ne and $lte
+ */
+function matches(row: Row, filter: Filter): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = row[field];
+    if (condition === null || typeof condition !== 'object') {
+      return value === condition;
+    }
+    const { $in, $ne, $lte } = condition as { $in?: unknown[]; $ne?: unknown; $lte?: number };
+    return ($in === undefined || $in.includes(value))
+      && ($ne === undefined || value !== $ne)
+      && ($lte === undefined || (value as number) <= $lte);
+  });
+}
+
+/**
+ * Just enough of a MongoDB database for the document-frequency table
+ */
+class MemoryDb {
+  readonly collections = new Map<string, Row[]>();
+  readonly renamed: string[] = [];
+
+  rows(name: string): Row[] {
+    if (!this.collections.has(name)) this.collections.set(name, []);
+    return this.collections.get(name)!;
+  }
+
+  collection(name: string) {
+    const rows = () => this.rows(name);
+    return {
+      countDocuments: async (filter: Filter = {}, options: { limit?: number } = {}) =>
+        Math.min(rows().filter(row => matches(row, filter)).length, options.limit ?? Infinity),
+      find: (filter: Filter = {}) => {
+        const found = rows().filter(row => matches(row, filter));
+        return { toArray: async () => found, [Symbol.asyncIterator]: async function* () { yield* found; } };
+      },
+      insertOne: async (row: Row) => { rows().push(row); },
+      insertMany: async (batch: Row[]) => { rows().push(...batch); },
+      deleteOne: async (filter: Filter) => {
+        const index = rows().findIndex(row => matches(row, filter));
+        if (index >= 0) rows().splice(index, 1);
+      },
+      deleteMany: async (filter: Filter) => {
+        this.collections.set(name, rows().filter(row => !matches(row, filter)));
+      },
+      bulkWrite: async (operations: { updateOne: { filter: Filter; update: { $inc: Record<string, number> } } }[]) => {
+        for (const { updateOne } of operations) {
+          let row = rows().find(candidate => matches(candidate, updateOne.filter));
+          if (!row) rows().push(row = { ...updateOne.filter });
+          for (const [field, change] of Object.entries(updateOne.update.$inc)) {
+            row[field] = ((row[field] as number) || 0) + change;
+          }
+        }
+      },
+      rename: async (target: string) => {
+        this.collections.set(target, rows());
+        this.collections.delete(name);
+        this.renamed.push(target);
+      },
+      drop: async () => { this.collections.delete(name); },
+    };
+  }
+}
+
+/**
+ * Document frequencies of the table's terms, without the article count
+ */
+function frequencies(db: MemoryDb): Record<string, number> {
+  const table = db.rows('term_frequencies').filter(row => row._id !== '#articles');
+  return Object.fromEntries(table.map(row => [row._id as string, row.documents as number]));
+}
+
+/**
+ * Store an article and count it, as DatabaseService does
+ */
+async function save(db: MemoryDb, service: DocumentFrequencyService, article: CorpusArticle): Promise<void> {
+  await db.collection('blog_posts').insertOne({ ...article });
+  await service.articleSaved(article);
+}
+
+/**
+ * Delete one stored record of an article and count it out
+ */
+async function remove(db: MemoryDb, service: DocumentFrequencyService, article: CorpusArticle): Promise<void> {
+  await db.collection('blog_posts').deleteOne({ url: article.url });
+  await service.articleDeleted(article);
+}
+
+const GARDEN: CorpusArticle = {
+  url: 'https://garden.example.com/basil?ref=feed',
+  canonicalUrl: 'https://garden.example.com/basil',
+  content: 'Basil needs sunshine.',
+  sourceLanguage: 'en',
+};
+const KITCHEN: CorpusArticle = {
+  url: 'https://kitchen.example.com/pesto',
+  content: 'Basil makes pesto.',
+  sourceLanguage: 'en',
+};
+
+describe('DocumentFrequencyService', () => {
+  it('builds the table from the stored articles on first use', async () => {
+    const db = new MemoryDb();
+    db.rows('blog_posts').push({ ...GARDEN }, { ...GARDEN, url: 'https://garden.example.com/basil' }, { ...KITCHEN });
+    const service = new DocumentFrequencyService(async () => db as unknown as Db);
+
+    const corpus = await service.lookup(['basil', 'pesto', 'unknown']);
+
+    // Two records of the garden article count as one
+    assert.deepEqual(corpus, { documentCount: 2, frequencies: { basil: 2, pesto: 1 } });
+  });
+
+  it('counts an article once across its summary variants', async () => {
+    const db = new MemoryDb();
+    const service = new DocumentFrequencyService(async () => db as unknown as Db);
+    await service.lookup([]);
+
+    await save(db, service, GARDEN);
+    await save(db, service, { ...GARDEN, url: 'https://garden.example.com/basil#summary' });
+    await save(db, service, KITCHEN);
+
+    assert.equal((await service.lookup([])).documentCount, 2);
+    assert.deepEqual(frequencies(db), { basil: 2, need: 1, sunshine: 1, make: 1, pesto: 1 });
+  });
+
+  it('counts an article out with its last stored variant', async () => {
+    const db = new MemoryDb();
+    const service = new DocumentFrequencyService(async () => db as unknown as Db);
+    await service.lookup([]);
+    const variant = { ...GARDEN, url: 'https://garden.example.com/basil#summary' };
+    await save(db, service, GARDEN);
+    await save(db, service, variant);
+    await save(db, service, KITCHEN);
+
+    await remove(db, service, GARDEN);
+    assert.equal((await service.lookup([])).documentCount, 2);
+
+    await remove(db, service, variant);
+    assert.equal((await service.lookup([])).documentCount, 1);
+    // Terms no article contains any more are dropped
+    assert.deepEqual(frequencies(db), { basil: 1, make: 1, pesto: 1 });
+  });
+
+  it('swaps a rebuilt table in by renaming it over the live one', async () => {
+    const db = new MemoryDb();
+    const service = new DocumentFrequencyService(async () => db as unknown as Db);
+    db.rows('term_frequencies').push({ _id: '#articles', documents: 7 }, { _id: 'stale', documents: 7 });
+    db.rows('blog_posts').push({ ...KITCHEN });
+
+    assert.equal(await service.rebuild(), 1);
+
+    assert.deepEqual(db.renamed, ['term_frequencies']);
+    assert.deepEqual(Array.from(db.collections.keys()).sort(), ['blog_posts', 'term_frequencies']);
+    assert.deepEqual(frequencies(db), { basil: 1, make: 1, pesto: 1 });
+  });
+});
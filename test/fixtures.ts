@@ -0,0 +1,23 @@
+import path from 'path';
+import { ReplayFetcher } from '../lib/fetchers';
+import { decodeBody } from '../lib/charset';
+
+// Hand-written pages on example.* hosts modelled on each platform's markup,
+// in the layout RecordingFetcher writes. Real recordings go to fixtures/pages.
+export const FIXTURE_PAGES_DIR = path.resolve(__dirname, '../fixtures/synthetic');
+
+export const fixtureFetcher = new ReplayFetcher(FIXTURE_PAGES_DIR);
+
+/**
+ * The stored HTML of a page and the URL it was finally served from
+ */
+export async function readFixturePage(url: string): Promise<{ html: string; finalUrl: string }> {
+  const response = await fixtureFetcher.fetch(url, {
+    timeout: 0,
+    maxRedirects: 0,
+    maxResponseBytes: 5 * 1024 * 1024,
+    allowedContentTypes: [],
+  });
+
+  return { html: decodeBody(response.body, response.contentType).text, finalUrl: response.url };
+}
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { groundSummary } from '../lib/grounding';
+
+const SOURCE = [
+  'Apple reported revenue of 89.5 billion dollars for the quarter, up 8 percent from a year earlier.',
+  'Tim Cook credited the iPhone 15 lineup and strong demand in emerging markets such as India for the growth.',
+  'Services revenue reached a record as more customers subscribed to Apple Music and iCloud.',
+].join('\n\n');
+
+/**
+ * Names flagged in the grounding of one key point
+ */
+function flaggedNames(keyPoint: string): string[] {
+  const grounding = groundSummary('', [keyPoint], SOURCE, { sourceLanguage: 'en', summaryLanguage: 'en' });
+  return grounding.keyPoints[0].issues.filter(issue => issue.type === 'name').map(issue => issue.value);
+}
+
+describe('groundSummary', () => {
+  it('accepts names the summary gives a title the source leaves out', () => {
+    assert.deepEqual(flaggedNames('CEO Tim Cook credited the iPhone 15 lineup for the growth.'), []);
+  });
+
+  it('ignores key point labels and Title Case phrases', () => {
+    assert.deepEqual(flaggedNames('Revenue Growth: Apple reported revenue of 89.5 billion dollars.'), []);
+    assert.deepEqual(flaggedNames('Strong Demand In Emerging Markets such as India drove the growth.'), []);
+  });
+
+  it('flags names the source never mentions', () => {
+    assert.deepEqual(flaggedNames('Satya Nadella praised the iPhone 15 lineup.'), ['Satya Nadella']);
+  });
+
+  it('cites source sentences by their offsets in the content', () => {
+    const grounding = groundSummary('Apple reported revenue of 89.5 billion dollars.', [], SOURCE, { sourceLanguage: 'en', summaryLanguage: 'en' });
+    const [source] = grounding.summary[0].sources;
+
+    assert.equal(source.text, 'Apple reported revenue of 89.5 billion dollars for the quarter, up 8 percent from a year earlier.');
+    assert.equal(SOURCE.slice(source.start, source.end), source.text);
+  });
+});
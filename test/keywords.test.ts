@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractKeywords, type CorpusFrequencies } from '../lib/keywords';
+
+const TEXT = [
+  'Sourdough bread needs a lively starter. Feed the starter every morning with flour and water.',
+  'Good sourdough bread also needs time: the dough rises slowly overnight in the kitchen.',
+  'Bread and butter is the simplest breakfast, and bread and butter is what the kitchen smells of.',
+  'A cold kitchen slows the starter, so keep the dough somewhere warm.',
+].join(' ');
+
+/**
+ * Phrases extracted from TEXT, best first
+ */
+function phrases(corpus?: CorpusFrequencies): string[] {
+  return extractKeywords(TEXT, { language: 'en', corpus }).map(keyword => keyword.phrase.toLowerCase());
+}
+
+describe('extractKeywords', () => {
+  it('ranks terms that are rare in the corpus above common ones', () => {
+    // "starter" and "kitchen" both occur three times here
+    const alone = extractKeywords(TEXT, { language: 'en' });
+    const score = (phrase: string) => alone.find(keyword => keyword.phrase === phrase)?.score;
+    assert.equal(score('starter'), score('kitchen'));
+
+    const ranked = phrases({ documentCount: 100, frequencies: { starter: 5, kitchen: 90 } });
+    assert.ok(ranked.indexOf('starter') < ranked.indexOf('kitchen'), ranked.join(', '));
+  });
+
+  it('splits phrases at stop words', () => {
+    const keywords = extractKeywords(TEXT, { language: 'en', limit: 50 });
+
+    assert.ok(keywords.some(keyword => keyword.phrase === 'Sourdough bread'));
+    // Repeated, but only ever with "and" between the words
+    assert.ok(!keywords.some(keyword => keyword.terms.includes('bread') && keyword.terms.includes('butter')));
+    assert.ok(!keywords.some(keyword => keyword.phrase.toLowerCase().split(' ').includes('and')));
+  });
+
+  it('skips phrases already covered by a better-ranked one', () => {
+    const ranked = phrases();
+
+    // "sourdough" recurs and would outrank the words seen once
+    assert.ok(ranked.includes('sourdough bread'));
+    assert.ok(ranked.includes('lively'));
+    assert.ok(!ranked.includes('sourdough'));
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectPageBarrier } from '../lib/page-barriers';
+
+const URL = 'https://news.example.com/2024/06/harbour-reopens';
+
+const ARTICLE = [
+  'The harbour reopened to fishing boats on Monday after three weeks of repairs to the storm-damaged sea wall.',
+  'Harbour officials said the new wall is half a metre higher and should withstand the strongest winter storms.',
+];
+
+// Site chrome with subscriber prompts and paywall scripts on every page
+const HEADER = `<header><nav><a href="/">Home</a><span>Already a subscriber? <a href="/login">Log in</a></span></nav></header>`;
+const SCRIPTS = `<script>window.piano = { template: '<div class="tp-modal paywall">Subscribe to continue reading</div>' };</script>`;
+
+/**
+ * A page with the article paragraphs followed by `after`
+ */
+function page(after: string = '', head: string = ''): string {
+  return `<html><head><title>Harbour reopens</title>${head}${SCRIPTS}</head><body>${HEADER}` +
+    `<article><h1>Harbour reopens</h1>${ARTICLE.map(paragraph => `<p>${paragraph}</p>`).join('')}</article>` +
+    `${after}<footer>Subscribers only: <a href="/offers">see offers</a></footer></body></html>`;
+}
+
+const CONTENT = ARTICLE.join('\n\n');
+
+describe('detectPageBarrier', () => {
+  it('ignores subscriber prompts in navigation and scripts of a free article', () => {
+    assert.equal(detectPageBarrier(page(), CONTENT, URL), null);
+  });
+
+  it('flags a subscribe prompt where the article text stops', () => {
+    const barrier = detectPageBarrier(page('<div class="gate"><p>Subscribe to continue reading.</p></div>'), CONTENT, URL);
+    assert.deepEqual(barrier, { kind: 'paywall', signal: '"subscribe to continue reading"' });
+  });
+
+  it('flags paywall markup where the article text stops', () => {
+    const barrier = detectPageBarrier(page('<div class="article-paywall"><button>Start trial</button></div>'), CONTENT, URL);
+    assert.deepEqual(barrier, { kind: 'paywall', signal: 'paywall markup' });
+  });
+
+  it('trusts structured data that marks the article as gated', () => {
+    const jsonLd = '<script type="application/ld+json">{"@type":"NewsArticle","isAccessibleForFree":false}</script>';
+    const barrier = detectPageBarrier(page('', jsonLd), CONTENT, URL);
+    assert.deepEqual(barrier, { kind: 'paywall', signal: 'isAccessibleForFree: false' });
+  });
+
+  it('finds the end of the article across inline markup and entities', () => {
+    const html = page('<p>You have reached your free article limit.</p>')
+      .replace('winter storms.', '<em>winter</em> storms&#8230;');
+    const barrier = detectPageBarrier(html, CONTENT, URL);
+    assert.deepEqual(barrier, { kind: 'paywall', signal: 'metered article limit' });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { preparePastedContent } from '../lib/pasted-content';
+
+const SOURCE = 'https://news.example.com/2024/05/city-budget';
+
+/**
+ * A pasted article page with the given paragraphs and extra <head> markup
+ */
+function page(paragraphs: string[], head: string = ''): string {
+  return `<html><head><title>City budget</title>${head}</head><body><article><h1>City budget</h1>` +
+    paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('') +
+    '<figure><img src="/images/council.jpg" width="800" alt="The council chamber"></figure></article></body></html>';
+}
+
+const FIRST = page([
+  'The council approved a budget of 120 million dollars for the coming year after a long debate on Tuesday.',
+  'Most of the increase will go to road repairs and to hiring more teachers for the new school in the north.',
+]);
+const SECOND = page([
+  'Residents packed the hall to ask why the library will close on Sundays under the new budget plan.',
+  'The mayor promised to look for savings elsewhere so that weekend opening hours can be kept next year.',
+]);
+
+describe('preparePastedContent', () => {
+  it('identifies pasted HTML by its content, not by the source label', async () => {
+    const first = await preparePastedContent({ content: FIRST, format: 'html', source: SOURCE });
+    const second = await preparePastedContent({ content: SECOND, format: 'html', source: SOURCE });
+
+    assert.match(first.canonicalUrl, /^paste:/);
+    assert.equal(first.canonicalUrl, first.url);
+    assert.notEqual(first.canonicalUrl, second.canonicalUrl);
+    assert.deepEqual(first.metadata?.pageUrls, [first.url]);
+    assert.equal(first.sourceLabel, SOURCE);
+  });
+
+  it('still resolves relative image URLs against the source label', async () => {
+    const pasted = await preparePastedContent({ content: FIRST, format: 'html', source: SOURCE });
+    assert.equal(pasted.leadImage?.url, 'https://news.example.com/images/council.jpg');
+  });
+
+  it('keeps a canonical link declared in the pasted HTML as metadata only', async () => {
+    const withCanonical = page(
+      ['The council approved a budget of 120 million dollars for the coming year after a long debate on Tuesday.'],
+      '<link rel="canonical" href="/2024/05/city-budget?utm_source=newsletter"><meta property="og:url" content="https://other.example.com/">'
+    );
+    const pasted = await preparePastedContent({ content: withCanonical, format: 'html', source: SOURCE });
+
+    assert.match(pasted.canonicalUrl, /^paste:/);
+    assert.deepEqual(pasted.metadata?.pageUrls, [pasted.url]);
+    assert.equal(pasted.metadata?.declaredCanonicalUrl, 'https://news.example.com/2024/05/city-budget');
+  });
+});
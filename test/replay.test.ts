@@ -0,0 +1,147 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebScraper } from '../lib/scraper';
+import { RobotsService } from '../lib/robots';
+import { siteAdapterRegistry } from '../lib/site-adapters';
+import { generateExtractiveSummary } from '../lib/summarizer';
+import { normalizeUnicodeText } from '../lib/text-utils';
+import { fixtureFetcher } from './fixtures';
+
+interface ReplayCase {
+  url: string;
+  title: string;
+  author?: string;
+  language: string; // Detected from the text
+  pages?: number; // Default 1
+  contains: string[]; // Sentences the extracted content must keep
+  excludes?: string[]; // Navigation and widgets it must drop
+}
+
+// Every page in fixtures/synthetic, replayed through the same path a live scrape takes
+const CASES: ReplayCase[] = [
+  {
+    url: 'https://riversideherald.example.com/news/2024/04/protected-bike-lanes-downtown',
+    title: 'City Adds Protected Bike Lanes to Three Downtown Streets',
+    author: 'Grace Okafor',
+    language: 'en',
+    pages: 2,
+    contains: [
+      'The project will cost 4.8 million dollars',
+      'The council will hold a public meeting in June',
+    ],
+    excludes: ['Most read', 'Library extends weekend hours'],
+  },
+  {
+    url: 'https://urdukhabar.example.com/2024/03/lahore-tree-plantation',
+    title: 'لاہور میں شجرکاری مہم کا آغاز',
+    language: 'ur',
+    contains: ['ماہرین کا کہنا ہے کہ درخت شہر میں فضائی آلودگی'],
+    excludes: ['جملہ حقوق محفوظ ہیں'],
+  },
+  {
+    url: 'https://medium.example.com/@ayesha.k/why-our-team-moved-from-mongodb-to-postgres-8f3a2c1d9e01',
+    title: 'Why Our Team Moved From MongoDB to Postgres',
+    author: 'Ayesha Khan',
+    language: 'en',
+    contains: ['the median report went from 4.2 seconds to 0.9 seconds'],
+    excludes: ['Sign in'],
+  },
+  {
+    url: 'https://mainstreetnotes.substack.example.com/p/the-quiet-return-of-the-corner-bakery',
+    title: 'The Quiet Return of the Corner Bakery',
+    author: 'Daniel Reyes',
+    language: 'en',
+    contains: ['all three sell out before noon on weekends'],
+    excludes: ['consider becoming a subscriber'],
+  },
+  {
+    url: 'https://dev.example.com/saralind/debouncing-search-input-in-react-without-a-library-4k2j',
+    title: 'Debouncing Search Input in React Without a Library',
+    author: 'Sara Lindqvist',
+    language: 'en',
+    contains: ['Pair the hook with an AbortController'],
+    excludes: ['Enter fullscreen mode'],
+  },
+  {
+    url: 'https://blog.omarfarooq.example.com/caching-api-responses-at-the-edge',
+    title: 'Caching API Responses at the Edge',
+    author: 'Omar Farooq',
+    language: 'en',
+    contains: ['the origin handled one request in twenty'],
+    excludes: ['Subscribe to my newsletter'],
+  },
+  {
+    url: 'https://urbangardener.example.com/2024/04/growing-tomatoes-on-a-balcony/',
+    title: 'Growing Tomatoes on a Balcony',
+    author: 'Priya Nair',
+    language: 'en',
+    contains: ['Tomatoes need at least six hours of direct sun'],
+    excludes: ['Share this:', 'Proudly powered by WordPress'],
+  },
+  {
+    url: 'https://mountaintrails.example.com/2023/10/hunza-valley-in-autumn.html',
+    title: 'Travel Diary: Hunza Valley in Autumn',
+    author: 'Bilal Ahmed',
+    language: 'en',
+    contains: ['Pack warm layers'],
+    excludes: ['Beautiful photos!'],
+  },
+];
+
+// Every host in the corpus has a robots.txt fixture, so the checks run as live
+const scraper = new WebScraper(siteAdapterRegistry, fixtureFetcher, new RobotsService());
+
+/**
+ * Scrape a fixture page without politeness delays or retries
+ */
+function replay(url: string) {
+  return scraper.scrapeContent(url, { minHostDelayMs: 0, maxRetries: 1 });
+}
+
+describe('synthetic page corpus', () => {
+  for (const testCase of CASES) {
+    it(`scrapes and summarizes ${testCase.url}`, async () => {
+      const scraped = await replay(testCase.url);
+
+      assert.equal(scraped.title, testCase.title);
+      assert.equal(scraped.metadata?.author, testCase.author);
+      assert.equal(scraped.metadata?.detectedLanguage.language, testCase.language);
+      assert.equal(scraped.metadata?.pagesMerged, testCase.pages ?? 1);
+      for (const text of testCase.contains) {
+        assert.ok(scraped.content.includes(text), `content lost "${text}"`);
+      }
+      for (const text of testCase.excludes ?? []) {
+        assert.ok(!scraped.content.includes(text), `content kept "${text}"`);
+      }
+
+      const result = generateExtractiveSummary(scraped.content, scraped.document);
+      assert.equal(result.strategy, 'extractive');
+      assert.ok(result.summary.length > 0, 'empty summary');
+      assert.ok(result.keyPoints.length > 0, 'no key points');
+
+      // Extractive summaries only quote the article
+      const content = normalizeUnicodeText(scraped.content);
+      for (const point of result.keyPoints) {
+        assert.ok(content.includes(point), `key point not in the article: "${point}"`);
+      }
+
+      // Same input, same summary
+      assert.deepEqual(generateExtractiveSummary(scraped.content, scraped.document), result);
+    });
+  }
+
+  it('fails fast for pages missing from the corpus', async () => {
+    await assert.rejects(replay('https://riversideherald.example.com/news/not-recorded'), { name: 'FixtureNotFoundError' });
+  });
+
+  it('does not fetch pages robots.txt disallows', async () => {
+    await assert.rejects(replay('https://riversideherald.example.com/members/2024/04/council-minutes'), {
+      name: 'RobotsDisallowedError',
+      unreachable: false,
+    });
+  });
+
+  it('treats a host without a robots.txt fixture as unreachable', async () => {
+    await assert.rejects(replay('https://example.org/not-recorded'), { name: 'RobotsDisallowedError', unreachable: true });
+  });
+});
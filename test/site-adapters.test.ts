@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { siteAdapterRegistry } from '../lib/site-adapters';
+import { readFixturePage } from './fixtures';
+
+interface AdapterCase {
+  url: string; // Of the synthetic page
+  servedAs?: string; // URL the adapter sees, for platforms matched by host only
+  adapter: string;
+  title: string;
+  author?: string;
+  publishDate?: string; // Prefix of the extracted value
+  contains: string; // A sentence of the article body
+  removed: string[]; // Page furniture the adapter must strip
+}
+
+const CASES: AdapterCase[] = [
+  {
+    // Recognized from Medium's app metadata, as on custom domains
+    url: 'https://medium.example.com/@ayesha.k/why-our-team-moved-from-mongodb-to-postgres-8f3a2c1d9e01',
+    adapter: 'medium',
+    title: 'Why Our Team Moved From MongoDB to Postgres',
+    author: 'Ayesha Khan',
+    publishDate: '2024-03-11',
+    contains: 'Postgres answered eighteen of the twenty reports faster',
+    removed: ['Listen', 'Clap'],
+  },
+  {
+    // Recognized from its Substack assets
+    url: 'https://mainstreetnotes.substack.example.com/p/the-quiet-return-of-the-corner-bakery',
+    adapter: 'substack',
+    title: 'The Quiet Return of the Corner Bakery',
+    author: 'Daniel Reyes',
+    publishDate: '2024-05-02',
+    contains: 'a small oven now costs less than a used car',
+    removed: ['consider becoming a subscriber', 'Leave a comment'],
+  },
+  {
+    // dev.to is recognized by its host alone
+    url: 'https://dev.example.com/saralind/debouncing-search-input-in-react-without-a-library-4k2j',
+    servedAs: 'https://dev.to/saralind/debouncing-search-input-in-react-without-a-library-4k2j',
+    adapter: 'devto',
+    title: 'Debouncing Search Input in React Without a Library',
+    author: 'Sara Lindqvist',
+    publishDate: '2024-02-19',
+    contains: 'Debouncing waits until the user stops typing',
+    removed: ['Enter fullscreen mode'],
+  },
+  {
+    // Custom domain, recognized from its Hashnode assets
+    url: 'https://blog.omarfarooq.example.com/caching-api-responses-at-the-edge',
+    adapter: 'hashnode',
+    title: 'Caching API Responses at the Edge',
+    author: 'Omar Farooq',
+    publishDate: '2024-03-28',
+    contains: 'purge by tag whenever a price changes',
+    removed: ['Subscribe to my newsletter'],
+  },
+  {
+    // Self-hosted, recognized from the generator tag
+    url: 'https://urbangardener.example.com/2024/04/growing-tomatoes-on-a-balcony/',
+    adapter: 'wordpress',
+    title: 'Growing Tomatoes on a Balcony',
+    author: 'Priya Nair',
+    publishDate: '2024-04-14',
+    contains: 'Each plant needs a pot of at least twenty litres',
+    removed: ['Share this:', 'Herbs on a Windowsill'],
+  },
+  {
+    // Recognized from the generator tag
+    url: 'https://mountaintrails.example.com/2023/10/hunza-valley-in-autumn.html',
+    adapter: 'blogger',
+    title: 'Travel Diary: Hunza Valley in Autumn',
+    author: 'Bilal Ahmed',
+    publishDate: '2023-10-22',
+    contains: 'the poplar trees across the Hunza Valley turn bright yellow',
+    removed: ['BlogThis!', 'Older Post'],
+  },
+];
+
+describe('site adapters', () => {
+  for (const testCase of CASES) {
+    it(`extracts ${testCase.adapter} articles`, async () => {
+      const { html } = await readFixturePage(testCase.url);
+      const result = siteAdapterRegistry.extract(html, testCase.servedAs ?? testCase.url);
+
+      assert.ok(result, 'no adapter matched');
+      assert.equal(result.adapter, testCase.adapter);
+      assert.equal(result.title, testCase.title);
+      assert.equal(result.author, testCase.author);
+      if (testCase.publishDate) {
+        assert.ok(result.publishDate?.startsWith(testCase.publishDate), `publish date was ${result.publishDate}`);
+      }
+
+      assert.ok(result.contentHtml, 'no content extracted');
+      const content = cheerio.load(result.contentHtml).text();
+      assert.ok(content.includes(testCase.contains));
+      for (const text of testCase.removed) {
+        assert.ok(!cheerio.load(result.html).text().includes(text), `"${text}" was not removed`);
+      }
+    });
+  }
+
+  it('matches platform hosts without looking at the page', () => {
+    const blank = cheerio.load('<html><body></body></html>');
+    const hosts: Array<[string, string]> = [
+      ['https://medium.com/@someone/post-1a2b', 'medium'],
+      ['https://team.medium.com/post-1a2b', 'medium'],
+      ['https://someone.substack.com/p/post', 'substack'],
+      ['https://www.dev.to/someone/post', 'devto'],
+      ['https://someone.hashnode.dev/post', 'hashnode'],
+      ['https://someone.wordpress.com/2024/01/post/', 'wordpress'],
+      ['https://someone.blogspot.co.uk/2024/01/post.html', 'blogger'],
+    ];
+
+    for (const [url, adapter] of hosts) {
+      assert.equal(siteAdapterRegistry.resolve(blank, new URL(url))?.name, adapter, url);
+    }
+  });
+
+  it('leaves pages from unknown platforms to generic extraction', () => {
+    const html = '<html><head><title>Plain page</title></head><body><article><p>Hello</p></article></body></html>';
+    assert.equal(siteAdapterRegistry.extract(html, 'https://example.org/plain'), null);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sentenceSpans, splitSentences } from '../lib/text-utils';
+
+describe('splitSentences', () => {
+  it('treats a period before a digit as a decimal point', () => {
+    assert.deepEqual(splitSentences('Revenue rose 8.5 percent. Costs fell!'), ['Revenue rose 8.5 percent', 'Costs fell']);
+    assert.deepEqual(
+      splitSentences('Revenue rose 8.5 percent. Costs fell!', { keepTerminators: true }),
+      ['Revenue rose 8.5 percent.', 'Costs fell!']
+    );
+  });
+
+  it('ends sentences at terminators of other scripts', () => {
+    assert.deepEqual(splitSentences('یہ پہلا جملہ ہے۔ کیا یہ دوسرا ہے؟'), ['یہ پہلا جملہ ہے', 'کیا یہ دوسرا ہے']);
+  });
+});
+
+describe('sentenceSpans', () => {
+  it('gives the offsets of each trimmed sentence', () => {
+    const text = '  Prices hit 3.75 dollars.  Demand held up?\nSupply did not';
+    const spans = sentenceSpans(text);
+
+    assert.deepEqual(spans.map(span => span.text), ['Prices hit 3.75 dollars.', 'Demand held up?', 'Supply did not']);
+    for (const span of spans) {
+      assert.equal(text.slice(span.start, span.end), span.text);
+    }
+  });
+});
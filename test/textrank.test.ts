@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankSentences, selectSentences } from '../lib/textrank';
+
+const SENTENCES = [
+  'The harbour reopened to fishing boats after repairs to the sea wall.',
+  'Repairs to the harbour sea wall took three weeks after the storm.',
+  'The council will pay for the harbour repairs from its storm fund.',
+  'A new bakery opened on the high street on Saturday morning.',
+  'Fishing boats returned to the harbour as soon as the sea wall reopened.',
+];
+
+describe('rankSentences', () => {
+  it('scores the sentences sharing the most with the rest highest', () => {
+    const ranked = rankSentences(SENTENCES, { language: 'en' });
+
+    assert.deepEqual(ranked.map(item => item.index), [0, 1, 2, 3, 4]);
+    assert.equal(Math.max(...ranked.map(item => item.score)), 1);
+    assert.ok(ranked[3].score < ranked[0].score);
+  });
+
+  it('builds the graph from a bounded set of sentences in long articles', () => {
+    const sentences = Array.from({ length: 2000 }, (_, i) =>
+      i % 2 === 0
+        ? `Harbour repairs to the sea wall continued on day ${i} of the work.`
+        : `Visitor ${i} bought bread number ${i} at the bakery stall.`
+    );
+    const ranked = rankSentences(sentences, { language: 'en' });
+
+    assert.equal(ranked.length, sentences.length);
+    const scored = ranked.filter(item => item.score > 0);
+    assert.ok(scored.length > 0 && scored.length <= 300);
+    assert.ok(scored.every(item => item.sentence.startsWith('Harbour')));
+  });
+});
+
+describe('selectSentences', () => {
+  it('picks central sentences without repeats, in input order', () => {
+    const selected = selectSentences(rankSentences(SENTENCES, { language: 'en' }), 2, { language: 'en' });
+
+    assert.equal(selected.length, 2);
+    assert.ok(selected[0].index < selected[1].index);
+    assert.ok(selected.every(item => item.index !== 3));
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { prepareUploadedFile } from '../lib/uploaded-content';
+
+/**
+ * A DOCX-named archive holding one highly compressible entry of `size` bytes
+ */
+async function zipBomb(size: number): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('word/document.xml', Buffer.alloc(size, 32));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * A minimal DOCX with one paragraph per entry of `paragraphs`
+ */
+async function docx(paragraphs: string[]): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>');
+  zip.file('word/document.xml',
+    '<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+    paragraphs.map(text => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`).join('') + '</w:body></w:document>');
+  zip.file('docProps/core.xml',
+    '<?xml version="1.0" encoding="UTF-8"?><cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Harbour works</dc:title></cp:coreProperties>');
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * A PDF with one line of Helvetica text per page
+ */
+function pdf(pages: string[]): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...pages.flatMap((text, index) => {
+      const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+      ];
+    }),
+  ];
+
+  let body = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = body.length;
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(body, 'latin1');
+}
+
+const PARAGRAPHS = [
+  'The harbour reopened to fishing boats on Monday after three weeks of repairs to the sea wall.',
+  'Harbour officials said the new wall is half a metre higher and should withstand winter storms.',
+];
+
+/**
+ * Rewrite every declared uncompressed size in an archive
+ */
+function understateSizes(data: Buffer, size: number): Buffer {
+  const patched = Buffer.from(data);
+  for (let offset = 0; offset + 4 <= patched.length; offset++) {
+    const signature = patched.readUInt32LE(offset);
+    if (signature === 0x04034b50) patched.writeUInt32LE(size, offset + 22); // Local file header
+    if (signature === 0x02014b50) patched.writeUInt32LE(size, offset + 24); // Central directory entry
+  }
+  return patched;
+}
+
+describe('prepareUploadedFile', () => {
+  it('extracts DOCX text and document properties', async () => {
+    const extracted = await prepareUploadedFile({ name: 'harbour.docx', data: await docx(PARAGRAPHS) });
+
+    assert.equal(extracted.title, 'Harbour works');
+    assert.deepEqual(extracted.document!.sections.flatMap(section => section.blocks), PARAGRAPHS.map(text => ({ type: 'paragraph', text })));
+  });
+
+  it('tags PDF text with its page instead of adding page headings', async () => {
+    const extracted = await prepareUploadedFile({ name: 'harbour.pdf', data: pdf(PARAGRAPHS) });
+    const blocks = extracted.document!.sections.flatMap(section => section.blocks);
+
+    assert.deepEqual(extracted.document!.sections.map(section => section.heading), [undefined]);
+    assert.deepEqual(blocks.map(block => block.page), [1, 2]);
+    assert.doesNotMatch(extracted.content, /Page \d/);
+    assert.doesNotMatch(extracted.markdown!, /Page \d/);
+    assert.equal(extracted.file?.pageCount, 2);
+  });
+
+  it('refuses archives that declare too much decompressed data', async () => {
+    const data = await zipBomb(60 * 1024 * 1024);
+    assert.ok(data.length < 1024 * 1024);
+
+    await assert.rejects(
+      prepareUploadedFile({ name: 'report.docx', data }),
+      { name: 'FileExtractionError', message: /too large once decompressed/ }
+    );
+  });
+
+  it('stops inflating archives whose declared sizes are false', async () => {
+    const data = understateSizes(await zipBomb(60 * 1024 * 1024), 1000);
+
+    await assert.rejects(
+      prepareUploadedFile({ name: 'report.docx', data }),
+      { name: 'FileExtractionError', message: /too large once decompressed/ }
+    );
+  });
+});
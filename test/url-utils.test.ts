@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { normalizeUrl, resolveCanonicalUrl } from '../lib/url-utils';
+
+/**
+ * A page head declaring the given canonical link
+ */
+function withCanonical(href: string): cheerio.CheerioAPI {
+  return cheerio.load(`<html><head><link rel="canonical" href="${href}"></head><body></body></html>`);
+}
+
+describe('normalizeUrl', () => {
+  it('drops tracking parameters, mirrors and trailing slashes', () => {
+    assert.equal(
+      normalizeUrl('http://m.example.com/post/?utm_source=feed&utm_medium=rss&fbclid=abc#comments'),
+      'https://example.com/post'
+    );
+    assert.equal(normalizeUrl('https://www.example.com/post?mc_cid=1&gclid=2'), 'https://example.com/post');
+  });
+
+  it('keeps generic parameters that can select different content', () => {
+    assert.equal(normalizeUrl('https://example.com/?s=react'), 'https://example.com/?s=react');
+    assert.equal(
+      normalizeUrl('https://example.com/report?source=annual&output=print&ref=v2'),
+      'https://example.com/report?output=print&ref=v2&source=annual'
+    );
+    assert.notEqual(normalizeUrl('https://example.com/?s=react'), normalizeUrl('https://example.com/?s=vue'));
+  });
+
+  it('drops mirror prefixes only when the registrable domain remains', () => {
+    assert.equal(normalizeUrl('https://amp.dev/documentation'), 'https://amp.dev/documentation');
+    assert.equal(normalizeUrl('https://m.tv/show'), 'https://m.tv/show');
+    assert.equal(normalizeUrl('https://www.io/post'), 'https://www.io/post');
+    assert.equal(normalizeUrl('https://m.co.uk/news'), 'https://m.co.uk/news');
+    assert.notEqual(normalizeUrl('https://amp.dev/post'), normalizeUrl('https://m.dev/post'));
+    assert.equal(normalizeUrl('https://www.bbc.co.uk/news'), 'https://bbc.co.uk/news');
+    assert.equal(normalizeUrl('https://amp.example.com/post'), 'https://example.com/post');
+  });
+
+  it('leaves non-web identifiers alone', () => {
+    assert.equal(normalizeUrl('paste:0123abcd'), 'paste:0123abcd');
+  });
+});
+
+describe('resolveCanonicalUrl', () => {
+  it('accepts a canonical on the same site', () => {
+    assert.equal(
+      resolveCanonicalUrl(withCanonical('https://www.example.com/2024/post'), 'https://blog.example.com/p/123'),
+      'https://example.com/2024/post'
+    );
+  });
+
+  it('ignores a canonical that claims another site', () => {
+    const page = 'https://attacker.example.net/copy';
+    assert.equal(resolveCanonicalUrl(withCanonical('https://victim.example.com/post'), page), page);
+
+    const sharedHost = 'https://attacker.github.io/post';
+    assert.equal(resolveCanonicalUrl(withCanonical('https://victim.github.io/post'), sharedHost), sharedHost);
+  });
+
+  it('accepts the publisher canonical of an AMP cache page', () => {
+    assert.equal(
+      resolveCanonicalUrl(
+        withCanonical('https://www.example.com/2024/post'),
+        'https://www-example-com.cdn.ampproject.org/c/s/www.example.com/2024/post/amp'
+      ),
+      'https://example.com/2024/post'
+    );
+  });
+});